@@ -5,6 +5,10 @@ interface Config {
     apiKey: string | undefined;
     baseUrl: string;
   };
+  brave: {
+    apiKey: string | undefined;
+    baseUrl: string;
+  };
   groq: {
     apiKey: string | undefined;
     defaultModel: string;
@@ -31,11 +35,55 @@ interface Config {
     keywords: string[];
   };
   search: {
+    providers: string[];
+    failover: boolean;
     maxResults: number;
     depth: 'basic' | 'advanced';
     productUrlPatterns: string[];
     excludePatterns: string[];
   };
+  fixtures: {
+    mode: 'off' | 'record' | 'replay';
+    dir: string;
+  };
+  cache: {
+    backend: 'upstash' | 'memory' | 'file';
+    softTtlSeconds: number;
+    hardTtlSeconds: number;
+    categoryTtls: Record<string, { softTtlSeconds?: number; hardTtlSeconds?: number }>;
+    stageTtls: {
+      translation: number;
+      productType: number;
+      category: number;
+      search: number;
+    };
+    maxEntries: number;
+    dir: string;
+    singleFlight: {
+      lockTtlSeconds: number;
+      waitTimeoutMs: number;
+      pollIntervalMs: number;
+      resultTtlSeconds: number;
+    };
+    upstash: {
+      url: string | undefined;
+      token: string | undefined;
+    };
+  };
+  jobs: {
+    ttlSeconds: number;
+    callbackTimeoutMs: number;
+    callbackAllowedHosts: string[];
+  };
+  batch: {
+    maxItems: number;
+    concurrency: number;
+  };
+  history: {
+    backend: 'upstash' | 'memory' | 'file';
+    dir: string;
+    maxEntriesPerProduct: number;
+  };
 }
 
 const config: Config = {
@@ -43,6 +91,11 @@ const config: Config = {
     apiKey: process.env.TAVILY_API_KEY,
     baseUrl: 'https://api.tavily.com/search'
   },
+
+  brave: {
+    apiKey: process.env.BRAVE_SEARCH_API_KEY,
+    baseUrl: 'https://api.search.brave.com/res/v1/web/search'
+  },
   
   groq: {
     apiKey: process.env.GROQ_API_KEY,
@@ -76,6 +129,12 @@ const config: Config = {
   },
 
   search: {
+    // Ordem de preferência; os seguintes só são usados no failover
+    providers: (process.env.SEARCH_PROVIDERS || 'tavily,brave')
+      .split(',')
+      .map((provider) => provider.trim().toLowerCase())
+      .filter(Boolean),
+    failover: process.env.SEARCH_FAILOVER !== 'false',
     maxResults: 30,
     depth: 'advanced',
     productUrlPatterns: [
@@ -87,6 +146,88 @@ const config: Config = {
       '/features/', '/best-', '/top-', '/review', '/compare',
       'wikipedia.', 'youtube.', '/forum/', '/category/'
     ]
+  },
+
+  // Gravação/reprodução de chamadas de busca e LLM (testes sem rede)
+  fixtures: {
+    mode: (['record', 'replay'].includes(process.env.FIXTURE_MODE || '')
+      ? process.env.FIXTURE_MODE
+      : 'off') as 'off' | 'record' | 'replay',
+    dir: process.env.FIXTURE_DIR || 'tests/fixtures'
+  },
+
+  // Backend de cache: Upstash quando configurado, senão LRU em memória
+  cache: {
+    backend: (['upstash', 'memory', 'file'].includes(process.env.CACHE_BACKEND || '')
+      ? process.env.CACHE_BACKEND
+      : process.env.UPSTASH_REDIS_REST_URL ? 'upstash' : 'memory') as 'upstash' | 'memory' | 'file',
+    // Após o soft TTL a análise ainda é servida (stale) e recalculada em
+    // background; após o hard TTL some do cache
+    softTtlSeconds: 24 * 60 * 60, // 24 horas
+    hardTtlSeconds: 7 * 24 * 60 * 60, // 7 dias
+    categoryTtls: {
+      // Ofertas e preços mudam rápido
+      digital_products_software: { softTtlSeconds: 6 * 60 * 60, hardTtlSeconds: 2 * 24 * 60 * 60 },
+      cloud_services: { softTtlSeconds: 6 * 60 * 60, hardTtlSeconds: 2 * 24 * 60 * 60 },
+      energy_utilities: { softTtlSeconds: 6 * 60 * 60, hardTtlSeconds: 2 * 24 * 60 * 60 },
+      financial_services: { softTtlSeconds: 6 * 60 * 60, hardTtlSeconds: 2 * 24 * 60 * 60 },
+      // Materiais de base quase não mudam
+      construction_materials: { softTtlSeconds: 3 * 24 * 60 * 60, hardTtlSeconds: 14 * 24 * 60 * 60 },
+      basic_metals: { softTtlSeconds: 3 * 24 * 60 * 60, hardTtlSeconds: 14 * 24 * 60 * 60 },
+      tyres: { softTtlSeconds: 3 * 24 * 60 * 60, hardTtlSeconds: 14 * 24 * 60 * 60 }
+    },
+    // Etapas intermediárias: tradução e tipo quase nunca mudam; resultados
+    // de busca envelhecem rápido (estoque, links quebrados)
+    stageTtls: {
+      translation: 30 * 24 * 60 * 60, // 30 dias
+      productType: 30 * 24 * 60 * 60, // 30 dias
+      category: 7 * 24 * 60 * 60, // 7 dias
+      search: 6 * 60 * 60 // 6 horas
+    },
+    maxEntries: parseInt(process.env.CACHE_MAX_ENTRIES || '500', 10),
+    dir: process.env.CACHE_DIR || '.cache/sicosi',
+    // Coalescência de requisições iguais: o lock expira sozinho se o dono
+    // morrer; quem espera desiste após waitTimeoutMs e analisa por conta própria
+    singleFlight: {
+      lockTtlSeconds: 120,
+      waitTimeoutMs: parseInt(process.env.SINGLE_FLIGHT_WAIT_MS || '45000', 10),
+      pollIntervalMs: 500,
+      resultTtlSeconds: 30
+    },
+    upstash: {
+      url: process.env.UPSTASH_REDIS_REST_URL,
+      token: process.env.UPSTASH_REDIS_REST_TOKEN
+    }
+  },
+
+  // Jobs assíncronos de análise: ficam consultáveis por 24h após criados
+  jobs: {
+    ttlSeconds: 24 * 60 * 60,
+    callbackTimeoutMs: 10000,
+    // Se definida, só estes hosts recebem callbacks (inclusive internos);
+    // sem ela, só hosts com endereço público
+    callbackAllowedHosts: (process.env.JOB_CALLBACK_ALLOWED_HOSTS || '')
+      .split(',')
+      .map((host) => host.trim().toLowerCase())
+      .filter(Boolean)
+  },
+
+  // Lotes (carrinhos/catálogos): concorrência baixa por causa dos rate
+  // limits do Groq e do Tavily
+  batch: {
+    maxItems: parseInt(process.env.BATCH_MAX_ITEMS || '25', 10),
+    // Valor inválido (não numérico ou < 1) vira o padrão, nunca NaN
+    concurrency: Math.max(1, parseInt(process.env.BATCH_CONCURRENCY || '3', 10) || 3)
+  },
+
+  // Histórico de análises: durável (sem TTL), no Upstash quando configurado,
+  // senão em disco (só fora da Vercel: lá o disco não é gravável)
+  history: {
+    backend: (['upstash', 'memory', 'file'].includes(process.env.HISTORY_BACKEND || '')
+      ? process.env.HISTORY_BACKEND
+      : process.env.UPSTASH_REDIS_REST_URL ? 'upstash' : 'file') as 'upstash' | 'memory' | 'file',
+    dir: process.env.HISTORY_DIR || '.data/history',
+    maxEntriesPerProduct: parseInt(process.env.HISTORY_MAX_ENTRIES || '500', 10)
   }
 };
 
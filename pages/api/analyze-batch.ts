@@ -0,0 +1,98 @@
+// pages/api/analyze-batch.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import config from '@/config';
+import {
+  BatchItemInput,
+  BatchItemResult,
+  CartSummary,
+  getBatchItemName,
+  runBatchAnalysis,
+  summarizeCart
+} from '@/services/batch-analysis';
+import { analyzeProductRequest } from '@/services/product-analysis';
+import type { AnalysisResponse } from '@/services/product-analysis';
+
+interface AnalyzeBatchResponse {
+  success: true;
+  items: BatchItemResult<AnalysisResponse>[];
+  summary: CartSummary;
+  timestamp: string;
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<AnalyzeBatchResponse | ErrorResponse>
+) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const { items, userCountry, userLanguage } = req.body as {
+      items?: BatchItemInput[];
+      userCountry?: string;
+      userLanguage?: string;
+    };
+
+    const { maxItems, concurrency } = config.batch;
+
+    if (!Array.isArray(items) || items.length === 0 || items.length > maxItems) {
+      return res.status(400).json({
+        success: false,
+        error: `items must be an array with between 1 and ${maxItems} products`
+      });
+    }
+
+    console.log(`🛒 [BATCH] Analyzing ${items.length} items (concurrency ${concurrency})`);
+
+    // Cada item passa pelo mesmo pipeline da rota individual (cache incluso)
+    const results = await runBatchAnalysis<AnalysisResponse>(items, concurrency, (item) =>
+      analyzeProductRequest({
+        productName: getBatchItemName(item),
+        pageUrl: item.pageUrl || item.url,
+        userCountry: item.userCountry || item.country || userCountry,
+        userLanguage,
+        category: item.category
+      })
+    );
+
+    const summary = summarizeCart(results);
+
+    console.log('✅ [BATCH] Done:', {
+      completed: summary.completed,
+      failed: summary.failed,
+      weightedScore: summary.weightedScore
+    });
+
+    res.status(200).json({
+      success: true,
+      items: results,
+      summary,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error
+      ? error.message
+      : 'Unknown error occurred';
+
+    console.error('❌ Analyze batch error:', errorMessage);
+    res.status(500).json({
+      success: false,
+      error: errorMessage
+    });
+  }
+}
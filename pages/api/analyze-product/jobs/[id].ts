@@ -0,0 +1,65 @@
+// pages/api/analyze-product/jobs/[id].ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { AnalysisJob, getAnalysisJob } from '../../../../services/analysis-jobs';
+
+interface JobSuccessResponse {
+  success: true;
+  job: AnalysisJob;
+}
+
+interface JobErrorResponse {
+  success: false;
+  error: string;
+}
+
+type JobResponse = JobSuccessResponse | JobErrorResponse;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<JobResponse>
+) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const { id } = req.query;
+
+    if (typeof id !== 'string' || id.trim().length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid job id'
+      });
+    }
+
+    const job = await getAnalysisJob(id);
+
+    if (!job) {
+      return res.status(404).json({
+        success: false,
+        error: `Job not found: ${id}`
+      });
+    }
+
+    // Enquanto o job roda o cliente consulta de novo
+    if (job.status === 'queued' || job.status === 'running') {
+      res.setHeader('Cache-Control', 'no-store');
+    }
+
+    res.status(200).json({ success: true, job });
+  } catch (error) {
+    console.error('❌ [JOBS] Job status error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
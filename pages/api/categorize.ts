@@ -0,0 +1,106 @@
+// pages/api/categorize.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import alternativesData from '@/data/alternatives.json';
+import {
+  categorizeProduct,
+  CategorizationError,
+  CategorizationResult,
+  translateProductName
+} from '@/services/categorization';
+import { withStageCache } from '@/services/cache/stages';
+import type { AlternativesData } from '@/types';
+
+interface CategorizeRequest {
+  productName?: string;
+  pageTitle?: string;
+  description?: string;
+  pageUrl?: string;
+  /** Idioma dos textos (pt, pt-BR, es...); sem ele, é detectado */
+  language?: string;
+  topN?: number;
+}
+
+interface CategorizeResponse extends CategorizationResult {
+  success: true;
+  categoryName: string;
+  kbVersion: string;
+  timestamp: string;
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+}
+
+const MAX_TOP_N = 10;
+
+const knowledgeBase = alternativesData as unknown as AlternativesData;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<CategorizeResponse | ErrorResponse>
+) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  const body = (req.body || {}) as CategorizeRequest;
+  const productName = typeof body.productName === 'string' ? body.productName.trim() : '';
+
+  if (!productName) {
+    return res.status(400).json({
+      success: false,
+      error: 'productName is required'
+    });
+  }
+
+  const topN = Math.min(Math.max(Math.floor(Number(body.topN) || 5), 1), MAX_TOP_N);
+
+  try {
+    // A tradução usa o mesmo cache de etapa da análise completa
+    const result = await categorizeProduct(
+      {
+        productName,
+        pageTitle: body.pageTitle || '',
+        description: body.description || '',
+        pageUrl: body.pageUrl || '',
+        language: typeof body.language === 'string' ? body.language : undefined
+      },
+      {
+        topN,
+        translate: (name) =>
+          withStageCache('translation', { productName: name }, { product: name }, (skipCache) =>
+            translateProductName(name, undefined, skipCache)
+          )
+      }
+    );
+
+    res.status(200).json({
+      success: true,
+      ...result,
+      categoryName: knowledgeBase.categories[result.category].name,
+      kbVersion: knowledgeBase.version,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error
+      ? error.message
+      : 'Unknown error occurred';
+
+    console.error('❌ Categorize error:', errorMessage);
+    // Produto não classificável (nome genérico, sem IA ou IA sem resposta válida)
+    res.status(error instanceof CategorizationError ? 422 : 500).json({
+      success: false,
+      error: errorMessage
+    });
+  }
+}
@@ -1,4 +1,10 @@
 import type { NextApiRequest, NextApiResponse } from 'next';
+import { getCache } from '../../services/cache';
+import {
+  CacheInvalidationFilter,
+  hasInvalidationFilter,
+  invalidateCache,
+} from '../../services/cache/invalidation';
 
 export default async function handler(
   req: NextApiRequest,
@@ -8,32 +14,31 @@ export default async function handler(
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
-  try {
-    const upstashUrl = process.env.UPSTASH_REDIS_REST_URL;
-    const upstashToken = process.env.UPSTASH_REDIS_REST_TOKEN;
-
-    if (!upstashUrl || !upstashToken) {
-      return res.status(500).json({ 
-        success: false, 
-        error: 'Upstash Redis not configured' 
-      });
-    }
+  const { productName, country, category, kbVersion, all, dryRun } = (req.body || {}) as
+    CacheInvalidationFilter & { dryRun?: boolean };
+  const filter: CacheInvalidationFilter = { productName, country, category, kbVersion, all: all === true };
 
-    // ✅ Usar a REST API do Upstash para limpar o cache
-    const response = await fetch(`${upstashUrl}/flushdb`, {
-      method: 'POST',
-      headers: {
-        Authorization: `Bearer ${upstashToken}`,
-      },
+  // ✅ Sem filtro nada é apagado: o Redis pode ter chaves de outras apps
+  if (!hasInvalidationFilter(filter)) {
+    return res.status(400).json({
+      success: false,
+      error: 'Provide productName, country, category, kbVersion or all: true'
     });
+  }
 
-    if (!response.ok) {
-      throw new Error(`Upstash error: ${response.statusText}`);
-    }
+  try {
+    const cache = getCache();
+    const result = await invalidateCache(filter, { dryRun: dryRun === true, cache });
 
     return res.status(200).json({ 
       success: true, 
-      message: 'Cache cleared successfully' 
+      message: result.dryRun
+        ? `${result.matched.length} cache entries would be deleted`
+        : `${result.deleted} cache entries deleted`,
+      backend: cache.name,
+      dryRun: result.dryRun,
+      deleted: result.deleted,
+      entries: result.matched
     });
   } catch (error) {
     return res.status(500).json({ 
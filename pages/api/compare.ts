@@ -0,0 +1,181 @@
+// pages/api/compare.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import alternativesData from '@/data/alternatives.json';
+import config from '@/config';
+import type { SustainabilityScore } from '@/services/scoring-engine';
+import { scoreProductInCategory } from '@/services/product-analysis';
+import { mapWithConcurrency } from '@/services/batch-analysis';
+import {
+  buildComparison,
+  chooseSharedCategory,
+  ProductComparison
+} from '@/services/product-comparison';
+import { identifyCategory } from '@/services/categorization';
+import type { AlternativesData } from '@/types';
+
+type CompareProductInput =
+  | string
+  | { productName: string; pageUrl?: string; pageTitle?: string; description?: string };
+
+interface CompareResponse extends ProductComparison {
+  success: true;
+  category: string;
+  categoryName: string;
+  /** Categoria detectada de cada produto antes de forçar a comum */
+  detectedCategories: Array<string | null>;
+  /** Produtos que falharam ficam com os campos de score null e `error` */
+  products: Array<{
+    name: string;
+    finalScore: number | null;
+    classification: SustainabilityScore['classification'] | null;
+    dataCoverage: number | null;
+    confidenceBand: SustainabilityScore['confidenceBand'] | null;
+    certifications: string[];
+    error?: string;
+  }>;
+  kbVersion: string;
+  timestamp: string;
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+}
+
+const MIN_PRODUCTS = 2;
+const MAX_PRODUCTS = 5;
+
+const knowledgeBase = alternativesData as unknown as AlternativesData;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<CompareResponse | ErrorResponse>
+) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const { products, category: requestedCategory } = req.body as {
+      products?: CompareProductInput[];
+      category?: string;
+    };
+
+    const items = (Array.isArray(products) ? products : [])
+      .map((product) => (typeof product === 'string' ? { productName: product } : product))
+      .filter((product) => product && typeof product.productName === 'string' && product.productName.trim())
+      .map((product) => ({ ...product, productName: product.productName.trim() }));
+
+    if (items.length < MIN_PRODUCTS || items.length > MAX_PRODUCTS) {
+      return res.status(400).json({
+        success: false,
+        error: `products must contain between ${MIN_PRODUCTS} and ${MAX_PRODUCTS} products`
+      });
+    }
+
+    if (requestedCategory && !knowledgeBase.categories[requestedCategory]) {
+      return res.status(400).json({
+        success: false,
+        error: `Category not found: ${requestedCategory}`
+      });
+    }
+
+    // Categoria detectada de cada produto; a comparação usa a mais votada
+    const detectedCategories = requestedCategory
+      ? items.map(() => requestedCategory)
+      : await mapWithConcurrency(items, config.batch.concurrency, async (item) => {
+          try {
+            return await identifyCategory(item);
+          } catch (error) {
+            console.warn(`⚠️ [COMPARE] Could not categorize "${item.productName}":`, error);
+            return null;
+          }
+        });
+
+    const votes = detectedCategories.filter(
+      (category): category is string => !!category && !!knowledgeBase.categories[category]
+    );
+    if (votes.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Could not determine a shared category; send "category" explicitly'
+      });
+    }
+
+    const category = requestedCategory || chooseSharedCategory(votes);
+    console.log(`⚖️ [COMPARE] Comparing ${items.length} products in "${category}"`);
+
+    // Mesma busca → extração → score da análise; falha de um produto não
+    // derruba a comparação dos demais
+    const scored = await mapWithConcurrency(items, config.batch.concurrency, async (item) => {
+      try {
+        const { score } = await scoreProductInCategory(item.productName, category);
+        return { score, error: undefined };
+      } catch (error) {
+        console.error(`❌ [COMPARE] Could not score "${item.productName}":`, error);
+        return { score: null, error: error instanceof Error ? error.message : 'Unknown error' };
+      }
+    });
+
+    const failed = items.flatMap((item, index) =>
+      scored[index].error ? [`${item.productName} (${scored[index].error})`] : []
+    );
+    if (items.length - failed.length < MIN_PRODUCTS) {
+      return res.status(502).json({
+        success: false,
+        error: `Could not score at least ${MIN_PRODUCTS} products: ${failed.join('; ')}`
+      });
+    }
+
+    const comparison = buildComparison(
+      items.map((item, index) => ({ name: item.productName, score: scored[index].score }))
+    );
+
+    console.log('✅ [COMPARE] Recommendation:', {
+      winner: comparison.recommendation.name,
+      margin: comparison.recommendation.margin,
+      clearWinner: comparison.recommendation.clearWinner
+    });
+
+    res.status(200).json({
+      success: true,
+      category,
+      categoryName: knowledgeBase.categories[category].name,
+      detectedCategories,
+      products: items.map((item, index) => {
+        const { score, error } = scored[index];
+        return {
+          name: item.productName,
+          finalScore: score ? score.finalScore : null,
+          classification: score ? score.classification : null,
+          dataCoverage: score ? score.dataCoverage : null,
+          confidenceBand: score ? score.confidenceBand : null,
+          certifications: score ? score.certifications.recognized.map((certification) => certification.name) : [],
+          ...(error ? { error } : {})
+        };
+      }),
+      ...comparison,
+      kbVersion: knowledgeBase.version,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    const errorMessage = error instanceof Error
+      ? error.message
+      : 'Unknown error occurred';
+
+    console.error('❌ Compare error:', errorMessage);
+    res.status(500).json({
+      success: false,
+      error: errorMessage
+    });
+  }
+}
@@ -0,0 +1,118 @@
+// pages/api/export.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import config from '@/config';
+import {
+  BatchItemInput,
+  getBatchItemName,
+  runBatchAnalysis,
+  summarizeCart
+} from '@/services/batch-analysis';
+import { loadStoredAnalysis } from '@/services/product-analysis';
+import type { AnalysisResponse } from '@/services/product-analysis';
+import {
+  EXPORT_FORMATS,
+  ExportableAnalysis,
+  ExportFormat,
+  renderExport
+} from '@/services/report-export';
+
+/**
+ * O relatório é evidência: sai só das análises que o servidor guardou,
+ * nunca de uma análise enviada pelo cliente.
+ */
+interface ExportRequest {
+  format?: ExportFormat;
+  title?: string;
+  /** Produto já analisado pelo /api/analyze-product */
+  productName?: string;
+  userCountry?: string;
+  /** Itens de um carrinho, como no /api/analyze-batch (com mais de um, inclui o resumo) */
+  items?: BatchItemInput[];
+}
+
+interface ErrorResponse {
+  success: false;
+  error: string;
+}
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<string | ErrorResponse>
+) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'POST') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const body = (req.body || {}) as ExportRequest;
+    const format = (req.query.format || body.format) as ExportFormat;
+
+    if (!EXPORT_FORMATS.includes(format)) {
+      return res.status(400).json({
+        success: false,
+        error: `format must be one of: ${EXPORT_FORMATS.join(', ')}`
+      });
+    }
+
+    const items = body.items ?? (body.productName ? [{ productName: body.productName }] : []);
+    const { maxItems, concurrency } = config.batch;
+
+    if (!Array.isArray(items) || items.length === 0 || items.length > maxItems) {
+      return res.status(400).json({
+        success: false,
+        error: `productName or items (between 1 and ${maxItems} products) is required`
+      });
+    }
+
+    // Itens sem análise guardada ficam de fora (contam como falha no resumo)
+    const results = await runBatchAnalysis<AnalysisResponse>(items, concurrency, (item) =>
+      loadStoredAnalysis({
+        productName: getBatchItemName(item),
+        userCountry: item.userCountry || item.country || body.userCountry
+      })
+    );
+    const analyses = results
+      .filter((item) => item.status === 'completed' && item.result)
+      .map((item) => item.result as ExportableAnalysis);
+
+    if (analyses.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: results[0]?.error || 'No stored analysis found'
+      });
+    }
+
+    const document = renderExport(format, analyses, {
+      title: body.title,
+      summary: items.length > 1 ? summarizeCart(results) : undefined
+    });
+
+    const filename = `sicosi-report-${new Date().toISOString().slice(0, 10)}.${document.extension}`;
+    res.setHeader('Content-Type', document.contentType);
+    // HTML abre no navegador (imprimir → PDF); os demais baixam como arquivo
+    res.setHeader(
+      'Content-Disposition',
+      `${format === 'html' ? 'inline' : 'attachment'}; filename="${filename}"`
+    );
+    res.status(200).send(document.body);
+
+  } catch (error) {
+    const errorMessage = error instanceof Error
+      ? error.message
+      : 'Unknown error occurred';
+
+    console.error('❌ Export error:', errorMessage);
+    res.status(500).json({
+      success: false,
+      error: errorMessage
+    });
+  }
+}
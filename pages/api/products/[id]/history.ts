@@ -0,0 +1,80 @@
+// pages/api/products/[id]/history.ts
+import type { NextApiRequest, NextApiResponse } from 'next';
+import {
+  AnalysisHistoryEntry,
+  buildScoreTrend,
+  getAnalysisHistory,
+  getProductId,
+  ScoreTrend
+} from '../../../../services/analysis-history';
+
+interface HistorySuccessResponse {
+  success: true;
+  productId: string;
+  productName: string;
+  trend: ScoreTrend;
+  entries: AnalysisHistoryEntry[];
+}
+
+interface HistoryErrorResponse {
+  success: false;
+  error: string;
+}
+
+type HistoryResponse = HistorySuccessResponse | HistoryErrorResponse;
+
+export default async function handler(
+  req: NextApiRequest,
+  res: NextApiResponse<HistoryResponse>
+) {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Accept');
+
+  if (req.method === 'OPTIONS') {
+    return res.status(200).end();
+  }
+
+  if (req.method !== 'GET') {
+    return res.status(405).json({ success: false, error: 'Method not allowed' });
+  }
+
+  try {
+    const { id, country, limit } = req.query;
+
+    // Aceita o id (slug) ou o próprio nome do produto
+    const productId = typeof id === 'string' ? getProductId(id) : '';
+    if (!productId) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid product id'
+      });
+    }
+
+    const entries = await getAnalysisHistory(productId, {
+      country: typeof country === 'string' ? country : undefined,
+      limit: typeof limit === 'string' ? parseInt(limit, 10) : undefined
+    });
+
+    if (entries.length === 0) {
+      return res.status(404).json({
+        success: false,
+        error: `No analysis history for product: ${productId}`
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      productId,
+      productName: entries[entries.length - 1].productName,
+      trend: buildScoreTrend(entries),
+      entries
+    });
+  } catch (error) {
+    console.error('❌ [HISTORY] History error:', error);
+    res.status(500).json({
+      success: false,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
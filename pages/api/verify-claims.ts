@@ -1,16 +1,23 @@
 // pages/api/verify-claims.ts
 import type { NextApiRequest, NextApiResponse } from 'next';
-import webSearchClient from '@/services/web-search-client';
-import type { SearchResponse } from '@/types';
+import { verifyClaims, ClaimsReport } from '@/services/claim-verifier';
+
+interface VerifyClaimsResponse extends ClaimsReport {
+  success: true;
+  timestamp: string;
+}
 
 interface ErrorResponse {
   success: false;
   error: string;
 }
 
+// Cada alegação gera uma busca e uma chamada ao LLM
+const MAX_CLAIMS = 10;
+
 export default async function handler(
   req: NextApiRequest,
-  res: NextApiResponse<SearchResponse | ErrorResponse>
+  res: NextApiResponse<VerifyClaimsResponse | ErrorResponse>
 ) {
   if (req.method !== 'POST') {
     return res.status(405).json({ success: false, error: 'Method not allowed' });
@@ -29,9 +36,24 @@ export default async function handler(
       });
     }
 
-    const results = await webSearchClient.verifyProductClaims(productName, claims);
+    const validClaims = claims
+      .filter((claim): claim is string => typeof claim === 'string' && claim.trim().length > 0)
+      .map((claim) => claim.trim());
+
+    if (validClaims.length === 0 || validClaims.length > MAX_CLAIMS) {
+      return res.status(400).json({
+        success: false,
+        error: `claims must contain between 1 and ${MAX_CLAIMS} non-empty strings`
+      });
+    }
+
+    const report = await verifyClaims(productName, validClaims);
 
-    res.status(200).json(results);
+    res.status(200).json({
+      success: true,
+      ...report,
+      timestamp: new Date().toISOString()
+    });
 
   } catch (error) {
     const errorMessage = error instanceof Error 
@@ -0,0 +1,273 @@
+// services/analysis-history.ts
+import { Redis } from '@upstash/redis';
+import config from '../config';
+import { createFileCache } from './cache/file';
+import { createMemoryCache } from './cache/memory';
+import { HISTORY_KEY_PREFIX } from './cache/keys';
+import type { CacheBackend } from './cache';
+import type { ConfidenceBand, ScoreBreakdown, SustainabilityScore } from './scoring-engine';
+
+/** Um ponto do histórico: o score de uma análise e com que KB/modelo foi feito */
+export interface AnalysisHistoryEntry {
+  productId: string;
+  productName: string;
+  country: string;
+  category: string;
+  timestamp: string;
+  score: number;
+  classification: SustainabilityScore['classification'] | null;
+  confidenceBand: ConfidenceBand | null;
+  dataCoverage: number | null;
+  /** Score e peso por critério (sem a evidência, que fica no cache) */
+  breakdown: Record<string, { score: number | null; weight: number }>;
+  kbVersion: string;
+  categoryHash: string | null;
+  /** Hash do certification_registry (ausente em entradas antigas) */
+  registryHash?: string | null;
+  model: string;
+  /** `rescore`: mesmos fatos re-pontuados após mudança da KB */
+  source: 'analysis' | 'rescore';
+}
+
+export type RecordAnalysisInput = Omit<AnalysisHistoryEntry, 'productId' | 'timestamp' | 'breakdown'> & {
+  breakdown?: ScoreBreakdown;
+  timestamp?: string;
+};
+
+export type TrendChangeReason = 'criteria_changed' | 'product_changed' | 'unchanged';
+
+export interface ScoreTrendPoint {
+  timestamp: string;
+  score: number;
+  country: string;
+  kbVersion: string;
+  /** Diferença para a análise anterior do mesmo país (null na primeira) */
+  change: number | null;
+  /**
+   * `criteria_changed`: a KB/critérios mudaram entre as análises;
+   * `product_changed`: mesma KB e score diferente (o produto mudou)
+   */
+  reason: TrendChangeReason | null;
+}
+
+export interface ScoreTrend {
+  first: number | null;
+  latest: number | null;
+  change: number | null;
+  /** Parte da variação explicada por mudanças do produto (mesma KB) */
+  productChange: number;
+  /** Parte da variação explicada por mudanças dos critérios */
+  criteriaChange: number;
+  points: ScoreTrendPoint[];
+}
+
+/**
+ * Lista de análises por produto. `append` acrescenta a entrada e descarta
+ * as mais antigas além de `maxEntries` sem perder gravações concorrentes.
+ */
+export interface HistoryStore {
+  name: string;
+  append(key: string, entry: AnalysisHistoryEntry, maxEntries: number): Promise<void>;
+  list(key: string): Promise<AnalysisHistoryEntry[]>;
+}
+
+/**
+ * Histórico no Upstash: uma lista Redis por produto, RPUSH + LTRIM na
+ * mesma transação (sem ler e regravar a lista inteira).
+ */
+function createUpstashHistoryStore(url: string, token: string): HistoryStore {
+  const redis = new Redis({ url, token });
+
+  return {
+    name: 'upstash',
+
+    async append(key: string, entry: AnalysisHistoryEntry, maxEntries: number): Promise<void> {
+      await redis.multi().rpush(key, entry).ltrim(key, -maxEntries, -1).exec();
+    },
+
+    async list(key: string): Promise<AnalysisHistoryEntry[]> {
+      return redis.lrange<AnalysisHistoryEntry>(key, 0, -1);
+    },
+  };
+}
+
+/**
+ * Histórico sobre um backend chave/valor (memória ou disco), para
+ * desenvolvimento e testes. As gravações de uma chave são enfileiradas
+ * neste processo, então análises concorrentes não se sobrescrevem.
+ */
+export function createKeyValueHistoryStore(backend: CacheBackend): HistoryStore {
+  const pending = new Map<string, Promise<void>>();
+
+  return {
+    name: backend.name,
+
+    append(key: string, entry: AnalysisHistoryEntry, maxEntries: number): Promise<void> {
+      const write = (pending.get(key) || Promise.resolve())
+        .catch(() => undefined)
+        .then(async () => {
+          const entries = (await backend.get<AnalysisHistoryEntry[]>(key)) || [];
+          entries.push(entry);
+          await backend.set(key, entries.slice(-maxEntries));
+        });
+
+      pending.set(key, write);
+      const release = () => {
+        if (pending.get(key) === write) pending.delete(key);
+      };
+      write.then(release, release);
+      return write;
+    },
+
+    async list(key: string): Promise<AnalysisHistoryEntry[]> {
+      return (await backend.get<AnalysisHistoryEntry[]>(key)) || [];
+    },
+  };
+}
+
+let store: HistoryStore | null = null;
+
+/**
+ * Store do histórico: sem TTL e com prefixo próprio, então a invalidação
+ * do cache (/api/clear-cache) não o apaga. Configuração que não grava de
+ * forma durável (Upstash sem credenciais, disco na Vercel) é erro, não
+ * um fallback silencioso.
+ */
+export function getHistoryStore(): HistoryStore {
+  if (!store) {
+    const { url, token } = config.cache.upstash;
+    if (config.history.backend === 'upstash') {
+      if (!url || !token) {
+        throw new Error('History backend "upstash" requires UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN');
+      }
+      store = createUpstashHistoryStore(url, token);
+    } else if (config.history.backend === 'memory') {
+      store = createKeyValueHistoryStore(createMemoryCache(Number.MAX_SAFE_INTEGER));
+    } else {
+      // Na Vercel o disco do projeto é só leitura e o /tmp some com a instância
+      if (process.env.VERCEL) {
+        throw new Error('File history backend is not durable on Vercel: configure Upstash for the analysis history');
+      }
+      store = createKeyValueHistoryStore(createFileCache(config.history.dir));
+    }
+    console.log(`🗃️ [HISTORY] Using ${store.name} backend`);
+  }
+  return store;
+}
+
+/**
+ * Substitui o store (testes).
+ */
+export function setHistoryStore(backend: HistoryStore): void {
+  store = backend;
+}
+
+/**
+ * Identidade do produto: nome normalizado em slug, estável entre
+ * variações de caixa, acentos e pontuação ("iPhone 15 Pro" → "iphone-15-pro").
+ */
+export function getProductId(productName: string): string {
+  return productName
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 120);
+}
+
+const historyKey = (productId: string) => `${HISTORY_KEY_PREFIX}${productId}`;
+
+export async function getAnalysisHistory(
+  productId: string,
+  { country, limit }: { country?: string; limit?: number } = {},
+  backend: HistoryStore = getHistoryStore(),
+): Promise<AnalysisHistoryEntry[]> {
+  const entries = await backend.list(historyKey(productId));
+  const filtered = country
+    ? entries.filter((entry) => entry.country.toUpperCase() === country.toUpperCase())
+    : entries;
+  return limit && limit > 0 ? filtered.slice(-limit) : filtered;
+}
+
+/**
+ * Acrescenta a análise ao histórico do produto (mais antigas descartadas
+ * além de config.history.maxEntriesPerProduct).
+ */
+export async function recordAnalysis(
+  input: RecordAnalysisInput,
+  backend: HistoryStore = getHistoryStore(),
+): Promise<AnalysisHistoryEntry> {
+  const productId = getProductId(input.productName);
+  const entry: AnalysisHistoryEntry = {
+    ...input,
+    productId,
+    timestamp: input.timestamp || new Date().toISOString(),
+    breakdown: Object.fromEntries(
+      Object.entries(input.breakdown || {}).map(([criterion, data]) => [
+        criterion,
+        { score: data.score, weight: data.weight },
+      ]),
+    ),
+  };
+
+  await backend.append(historyKey(productId), entry, config.history.maxEntriesPerProduct);
+
+  console.log(`🗃️ [HISTORY] Recorded ${entry.source} for ${productId}: ${entry.score} (KB ${entry.kbVersion})`);
+  return entry;
+}
+
+/**
+ * Tendência do score: cada variação (contra a análise anterior do mesmo
+ * país) é atribuída à mudança dos critérios (KB, categoria, hash da
+ * categoria ou do registry diferente) ou do próprio produto.
+ */
+export function buildScoreTrend(entries: AnalysisHistoryEntry[]): ScoreTrend {
+  const sorted = [...entries].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  let productChange = 0;
+  let criteriaChange = 0;
+  const previousByCountry = new Map<string, AnalysisHistoryEntry>();
+
+  const points: ScoreTrendPoint[] = sorted.map((entry) => {
+    const point = {
+      timestamp: entry.timestamp,
+      score: entry.score,
+      country: entry.country,
+      kbVersion: entry.kbVersion,
+    };
+    const previous = previousByCountry.get(entry.country);
+    previousByCountry.set(entry.country, entry);
+    if (!previous) {
+      return { ...point, change: null, reason: null };
+    }
+
+    const change = entry.score - previous.score;
+    const criteriaChanged =
+      entry.kbVersion !== previous.kbVersion ||
+      (!!entry.categoryHash && !!previous.categoryHash && entry.categoryHash !== previous.categoryHash) ||
+      (!!entry.registryHash && !!previous.registryHash && entry.registryHash !== previous.registryHash) ||
+      entry.category !== previous.category;
+    const reason: TrendChangeReason = criteriaChanged
+      ? 'criteria_changed'
+      : change !== 0
+        ? 'product_changed'
+        : 'unchanged';
+
+    if (reason === 'criteria_changed') criteriaChange += change;
+    if (reason === 'product_changed') productChange += change;
+
+    return { ...point, change, reason };
+  });
+
+  const first = sorted.length > 0 ? sorted[0].score : null;
+  const latest = sorted.length > 0 ? sorted[sorted.length - 1].score : null;
+
+  return {
+    first,
+    latest,
+    change: first !== null && latest !== null ? latest - first : null,
+    productChange,
+    criteriaChange,
+    points,
+  };
+}
@@ -0,0 +1,259 @@
+// services/analysis-jobs.ts
+import { randomUUID } from 'crypto';
+import { promises as dns } from 'dns';
+import { BlockList, isIP } from 'net';
+import axios from 'axios';
+import config from '../config';
+import { getCache } from './cache';
+import { JOB_KEY_PREFIX } from './cache/keys';
+import type { CacheBackend } from './cache';
+
+/** Etapas do pipeline de análise reportadas ao cliente */
+export type AnalysisStage = 'categorizing' | 'searching' | 'scoring' | 'alternatives';
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export const ANALYSIS_STAGES: AnalysisStage[] = ['categorizing', 'searching', 'scoring', 'alternatives'];
+
+export interface AnalysisJob<TResult = unknown> {
+  id: string;
+  status: AnalysisJobStatus;
+  /** Etapa em andamento (null antes de começar e depois de terminar) */
+  stage: AnalysisStage | null;
+  completedStages: AnalysisStage[];
+  /** Percentual (0-100) de etapas concluídas */
+  progress: number;
+  productName: string;
+  userCountry: string;
+  callbackUrl: string | null;
+  result: TResult | null;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateAnalysisJobInput {
+  productName: string;
+  userCountry: string;
+  callbackUrl?: string | null;
+}
+
+const jobKey = (id: string) => `${JOB_KEY_PREFIX}${id}`;
+
+// Loopback, redes privadas, link-local (metadados de nuvem), CGNAT,
+// multicast e reservados: um callback não pode apontar para dentro
+const privateNetworks = new BlockList();
+[
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+  ['224.0.0.0', 3],
+].forEach(([network, prefix]) => privateNetworks.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 127],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+].forEach(([network, prefix]) => privateNetworks.addSubnet(network as string, prefix as number, 'ipv6'));
+
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (!family) return false;
+  return privateNetworks.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+function getCallbackHost(url: URL): string {
+  return url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+}
+
+/**
+ * Aceita só URLs http(s) absolutas como callback. Com
+ * config.jobs.callbackAllowedHosts, só os hosts da lista; sem ela,
+ * recusa localhost e IPs internos (o DNS é checado no envio).
+ */
+export function isValidCallbackUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return false;
+
+  const host = getCallbackHost(url);
+  const allowedHosts = config.jobs.callbackAllowedHosts;
+  if (allowedHosts.length > 0) return allowedHosts.includes(host);
+
+  return host !== 'localhost' && !host.endsWith('.localhost') && !isPrivateAddress(host);
+}
+
+/**
+ * Resolve o host do callback e recusa se algum endereço for interno.
+ * Hosts da lista configurada não são checados.
+ */
+async function isCallbackTargetAllowed(callbackUrl: string): Promise<boolean> {
+  if (!isValidCallbackUrl(callbackUrl)) return false;
+
+  const host = getCallbackHost(new URL(callbackUrl));
+  if (config.jobs.callbackAllowedHosts.length > 0 || isIP(host)) return true;
+
+  const addresses = await dns.lookup(host, { all: true });
+  return addresses.length > 0 && !addresses.some(({ address }) => isPrivateAddress(address));
+}
+
+/**
+ * Cache dos jobs: o status pode ser consultado em outra instância, então
+ * precisa ser compartilhado. Memória (inclusive o fallback do Upstash sem
+ * credenciais) nunca serve; arquivo só fora da Vercel.
+ */
+export function getJobCache(cache: CacheBackend = getCache()): CacheBackend {
+  if (cache.name === 'memory' || (cache.name === 'file' && process.env.VERCEL)) {
+    throw new Error(
+      'Async analysis requires a shared cache: configure Upstash (UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN)',
+    );
+  }
+  return cache;
+}
+
+async function saveJob<TResult>(job: AnalysisJob<TResult>, cache: CacheBackend): Promise<AnalysisJob<TResult>> {
+  job.updatedAt = new Date().toISOString();
+  await cache.set(jobKey(job.id), job, config.jobs.ttlSeconds);
+  return job;
+}
+
+async function updateJob<TResult>(
+  id: string,
+  update: (job: AnalysisJob<TResult>) => void,
+  cache: CacheBackend,
+): Promise<AnalysisJob<TResult>> {
+  const job = await cache.get<AnalysisJob<TResult>>(jobKey(id));
+  if (!job) {
+    throw new Error(`Analysis job not found: ${id}`);
+  }
+  update(job);
+  return saveJob(job, cache);
+}
+
+export async function createAnalysisJob(
+  input: CreateAnalysisJobInput,
+  cache: CacheBackend = getJobCache(),
+): Promise<AnalysisJob> {
+  const now = new Date().toISOString();
+  const job: AnalysisJob = {
+    id: randomUUID(),
+    status: 'queued',
+    stage: null,
+    completedStages: [],
+    progress: 0,
+    productName: input.productName,
+    userCountry: input.userCountry,
+    callbackUrl: input.callbackUrl || null,
+    result: null,
+    error: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  console.log(`🧾 [JOBS] Job ${job.id} created for "${input.productName.substring(0, 40)}"`);
+  return saveJob(job, cache);
+}
+
+export async function getAnalysisJob<TResult = unknown>(
+  id: string,
+  cache: CacheBackend = getJobCache(),
+): Promise<AnalysisJob<TResult> | null> {
+  return cache.get<AnalysisJob<TResult>>(jobKey(id));
+}
+
+/**
+ * Marca o início de uma etapa; as anteriores contam como concluídas.
+ */
+export async function setAnalysisJobStage(
+  id: string,
+  stage: AnalysisStage,
+  cache: CacheBackend = getJobCache(),
+): Promise<AnalysisJob> {
+  return updateJob(
+    id,
+    (job) => {
+      const index = ANALYSIS_STAGES.indexOf(stage);
+      job.status = 'running';
+      job.stage = stage;
+      job.completedStages = ANALYSIS_STAGES.slice(0, index);
+      job.progress = Math.round((index / ANALYSIS_STAGES.length) * 100);
+    },
+    cache,
+  );
+}
+
+export async function completeAnalysisJob<TResult>(
+  id: string,
+  result: TResult,
+  cache: CacheBackend = getJobCache(),
+): Promise<AnalysisJob<TResult>> {
+  const job = await updateJob<TResult>(
+    id,
+    (current) => {
+      current.status = 'completed';
+      current.stage = null;
+      current.completedStages = [...ANALYSIS_STAGES];
+      current.progress = 100;
+      current.result = result;
+    },
+    cache,
+  );
+  console.log(`✅ [JOBS] Job ${id} completed`);
+  await notifyJobCallback(job);
+  return job;
+}
+
+export async function failAnalysisJob(
+  id: string,
+  error: unknown,
+  cache: CacheBackend = getJobCache(),
+): Promise<AnalysisJob> {
+  const job = await updateJob(
+    id,
+    (current) => {
+      current.status = 'failed';
+      current.error = error instanceof Error ? error.message : 'Unknown error';
+    },
+    cache,
+  );
+  console.error(`❌ [JOBS] Job ${id} failed:`, job.error);
+  await notifyJobCallback(job);
+  return job;
+}
+
+/**
+ * Envia o job finalizado (concluído ou com falha) para o callback URL.
+ * Falha no callback não altera o job: o cliente ainda pode consultar o status.
+ */
+export async function notifyJobCallback(job: AnalysisJob<unknown>): Promise<boolean> {
+  if (!job.callbackUrl) return false;
+
+  try {
+    if (!(await isCallbackTargetAllowed(job.callbackUrl))) {
+      console.error(`❌ [JOBS] Callback blocked for job ${job.id}: internal or disallowed host`);
+      return false;
+    }
+
+    // Sem seguir redirects: o destino final não passaria pela checagem
+    await axios.post(job.callbackUrl, job, {
+      timeout: config.jobs.callbackTimeoutMs,
+      maxRedirects: 0,
+      headers: { 'Content-Type': 'application/json', 'X-SICOSI-Job-Id': job.id },
+    });
+    console.log(`📬 [JOBS] Callback delivered for job ${job.id}`);
+    return true;
+  } catch (error) {
+    console.error(`❌ [JOBS] Callback failed for job ${job.id}:`, error instanceof Error ? error.message : error);
+    return false;
+  }
+}
@@ -0,0 +1,194 @@
+// services/batch-analysis.ts
+import { classifyScore, SustainabilityScore } from './scoring-engine';
+
+/**
+ * Item de um carrinho/catálogo. `quantity` e `price` definem o peso do item
+ * no score do carrinho.
+ */
+export interface BatchItemInput {
+  productName?: string;
+  name?: string;
+  url?: string;
+  pageUrl?: string;
+  country?: string;
+  userCountry?: string;
+  category?: string;
+  quantity?: number;
+  price?: number;
+}
+
+/** O mínimo da resposta de análise que o resumo do carrinho precisa */
+export interface BatchAnalysisLike {
+  success: boolean;
+  category?: string;
+  originalProduct?: {
+    sustainability_score: number;
+    classification?: SustainabilityScore['classification'];
+  };
+  error?: string;
+  _meta?: { cached: boolean };
+}
+
+export interface BatchItemResult<T extends BatchAnalysisLike> {
+  index: number;
+  productName: string;
+  status: 'completed' | 'failed';
+  weight: number;
+  score: number | null;
+  classification: SustainabilityScore['classification'] | null;
+  category: string | null;
+  cached: boolean;
+  durationMs: number;
+  result?: T;
+  error?: string;
+}
+
+export interface CartSummary {
+  totalItems: number;
+  completed: number;
+  failed: number;
+  /** Soma dos pesos dos itens analisados com sucesso */
+  totalWeight: number;
+  /** Média ponderada por quantidade × preço (null se nenhum item concluiu) */
+  weightedScore: number | null;
+  averageScore: number | null;
+  classification: SustainabilityScore['classification'] | null;
+  /** Itens de pior score: os primeiros candidatos a troca */
+  lowestScoring: Array<{ index: number; productName: string; score: number; weight: number }>;
+}
+
+const LOWEST_SCORING_LIMIT = 3;
+
+export function getBatchItemName(item: BatchItemInput): string {
+  const name = item.productName || item.name;
+  return typeof name === 'string' ? name.trim() : '';
+}
+
+/**
+ * Peso do item no carrinho: quantidade × preço; sem preço, só a quantidade.
+ */
+export function getBatchItemWeight(item: BatchItemInput): number {
+  const quantity = typeof item.quantity === 'number' && item.quantity > 0 ? item.quantity : 1;
+  const price = typeof item.price === 'number' && item.price > 0 ? item.price : 1;
+  return quantity * price;
+}
+
+/**
+ * Executa `fn` para cada item com no máximo `limit` em paralelo,
+ * preservando a ordem dos resultados.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const size = Number.isFinite(limit) ? Math.max(1, Math.min(Math.floor(limit), items.length)) : 1;
+  const workers = Array.from({ length: size }, worker);
+  await Promise.all(workers);
+  return results;
+}
+
+/**
+ * Analisa os itens com concorrência limitada. Falha de um item vira
+ * resultado `failed` do item, nunca derruba o lote.
+ */
+export async function runBatchAnalysis<T extends BatchAnalysisLike>(
+  items: BatchItemInput[],
+  concurrency: number,
+  analyze: (item: BatchItemInput, index: number) => Promise<T>,
+): Promise<BatchItemResult<T>[]> {
+  return mapWithConcurrency(items, concurrency, async (item, index) => {
+    let productName = '';
+    let weight = 1;
+    const startedAt = Date.now();
+    const failed = (error: string): BatchItemResult<T> => ({
+      index,
+      productName,
+      status: 'failed',
+      weight,
+      score: null,
+      classification: null,
+      category: null,
+      cached: false,
+      durationMs: Date.now() - startedAt,
+      error,
+    });
+
+    try {
+      // Item malformado (null, string, número...) falha sozinho, não o lote
+      if (!item || typeof item !== 'object') {
+        return failed('item must be an object');
+      }
+
+      productName = getBatchItemName(item);
+      weight = getBatchItemWeight(item);
+      if (!productName) {
+        return failed('productName is required');
+      }
+
+      const result = await analyze(item, index);
+      if (!result.success || !result.originalProduct) {
+        return failed(result.error || 'Analysis failed');
+      }
+
+      const score = result.originalProduct.sustainability_score;
+      return {
+        index,
+        productName,
+        status: 'completed',
+        weight,
+        score,
+        classification: result.originalProduct.classification || classifyScore(score),
+        category: result.category || null,
+        cached: !!result._meta?.cached,
+        durationMs: Date.now() - startedAt,
+        result,
+      };
+    } catch (error) {
+      console.error(`❌ [BATCH] Item ${index} failed:`, error);
+      return failed(error instanceof Error ? error.message : 'Unknown error');
+    }
+  });
+}
+
+/**
+ * Resumo do carrinho: score médio ponderado pelo peso de cada item e os
+ * itens de pior desempenho. Itens com falha ficam fora da média.
+ */
+export function summarizeCart<T extends BatchAnalysisLike>(results: BatchItemResult<T>[]): CartSummary {
+  const scored = results.filter(
+    (item): item is BatchItemResult<T> & { score: number } => item.status === 'completed' && item.score !== null,
+  );
+
+  const totalWeight = scored.reduce((sum, item) => sum + item.weight, 0);
+  const weightedScore =
+    totalWeight > 0
+      ? Math.round(scored.reduce((sum, item) => sum + item.score * item.weight, 0) / totalWeight)
+      : null;
+  const averageScore =
+    scored.length > 0 ? Math.round(scored.reduce((sum, item) => sum + item.score, 0) / scored.length) : null;
+
+  return {
+    totalItems: results.length,
+    completed: scored.length,
+    failed: results.length - scored.length,
+    totalWeight,
+    weightedScore,
+    averageScore,
+    classification: weightedScore === null ? null : classifyScore(weightedScore),
+    lowestScoring: [...scored]
+      .sort((a, b) => a.score - b.score || b.weight - a.weight)
+      .slice(0, LOWEST_SCORING_LIMIT)
+      .map(({ index, productName, score, weight }) => ({ index, productName, score, weight })),
+  };
+}
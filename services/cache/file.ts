@@ -0,0 +1,107 @@
+// services/cache/file.ts
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { CacheBackend, globToRegExp } from './types';
+
+interface FileEntry {
+  key: string;
+  value: unknown;
+  expiresAt: number | null;
+}
+
+/**
+ * Cache em disco: um JSON por chave (nome = hash da chave), útil em
+ * desenvolvimento sem Upstash e para manter o cache entre reinícios.
+ */
+export function createFileCache(dir: string): CacheBackend {
+  const root = path.resolve(dir);
+
+  const fileFor = (key: string) =>
+    path.join(root, `${createHash('sha256').update(key).digest('hex')}.json`);
+
+  const readEntry = (file: string): FileEntry | null => {
+    try {
+      const entry = JSON.parse(fs.readFileSync(file, 'utf-8')) as FileEntry;
+      if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+        fs.rmSync(file, { force: true });
+        return null;
+      }
+      return entry;
+    } catch {
+      return null;
+    }
+  };
+
+  const listFiles = () =>
+    fs.existsSync(root)
+      ? fs.readdirSync(root).filter((name) => name.endsWith('.json')).map((name) => path.join(root, name))
+      : [];
+
+  return {
+    name: 'file',
+
+    async get<T>(key: string): Promise<T | null> {
+      const entry = readEntry(fileFor(key));
+      return entry && entry.key === key ? (entry.value as T) : null;
+    },
+
+    async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+      const entry: FileEntry = {
+        key,
+        value,
+        expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : null,
+      };
+      fs.mkdirSync(root, { recursive: true });
+      // Escrita atômica: leitores nunca veem um JSON pela metade
+      const file = fileFor(key);
+      const tmp = `${file}.${process.pid}.tmp`;
+      fs.writeFileSync(tmp, JSON.stringify(entry));
+      fs.renameSync(tmp, file);
+    },
+
+    // Criação exclusiva ('wx'): entre processos só um consegue gravar
+    async setIfAbsent<T>(key: string, value: T, ttlSeconds?: number): Promise<boolean> {
+      const file = fileFor(key);
+      if (readEntry(file)) return false;
+
+      const entry: FileEntry = {
+        key,
+        value,
+        expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : null,
+      };
+      fs.mkdirSync(root, { recursive: true });
+      try {
+        fs.writeFileSync(file, JSON.stringify(entry), { flag: 'wx' });
+        return true;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'EEXIST') return false;
+        throw error;
+      }
+    },
+
+    async del(keys: string | string[]): Promise<number> {
+      let removed = 0;
+      for (const key of Array.isArray(keys) ? keys : [keys]) {
+        const file = fileFor(key);
+        if (fs.existsSync(file)) {
+          fs.rmSync(file, { force: true });
+          removed++;
+        }
+      }
+      return removed;
+    },
+
+    async keys(pattern: string): Promise<string[]> {
+      const matcher = globToRegExp(pattern);
+      return listFiles()
+        .map(readEntry)
+        .filter((entry): entry is FileEntry => entry !== null && matcher.test(entry.key))
+        .map((entry) => entry.key);
+    },
+
+    async flush(): Promise<void> {
+      listFiles().forEach((file) => fs.rmSync(file, { force: true }));
+    },
+  };
+}
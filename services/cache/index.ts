@@ -0,0 +1,49 @@
+// services/cache/index.ts
+import config from '../../config';
+import { createFileCache } from './file';
+import { createMemoryCache } from './memory';
+import { createUpstashCache } from './upstash';
+import type { CacheBackend } from './types';
+
+export type { CacheBackend } from './types';
+
+let cache: CacheBackend | null = null;
+
+/**
+ * Cria o backend de config.cache.backend. Upstash sem URL/token cai para
+ * memória com aviso, em vez de quebrar na primeira leitura.
+ */
+export function createCache(backend: string = config.cache.backend): CacheBackend {
+  if (backend === 'upstash') {
+    const { url, token } = config.cache.upstash;
+    if (url && token) {
+      return createUpstashCache(url, token);
+    }
+    console.warn('⚠️ [CACHE] Upstash not configured, falling back to in-memory cache');
+    return createMemoryCache(config.cache.maxEntries);
+  }
+
+  if (backend === 'file') {
+    return createFileCache(config.cache.dir);
+  }
+
+  return createMemoryCache(config.cache.maxEntries);
+}
+
+/**
+ * Instância compartilhada entre as rotas (analyze, clear-cache...).
+ */
+export function getCache(): CacheBackend {
+  if (!cache) {
+    cache = createCache();
+    console.log(`🗄️ [CACHE] Using ${cache.name} backend`);
+  }
+  return cache;
+}
+
+/**
+ * Substitui a instância compartilhada (testes).
+ */
+export function setCache(backend: CacheBackend): void {
+  cache = backend;
+}
@@ -0,0 +1,148 @@
+// services/cache/invalidation.ts
+import { getCache } from './index';
+import {
+  ANALYSIS_KEY_PREFIX,
+  ParsedCacheKey,
+  REQUEST_KEY_PREFIX,
+  STAGE_KEY_PREFIX,
+  normalizeProductName,
+  parseCacheKey,
+} from './keys';
+import type { StageCacheEntry } from './stages';
+import type { CacheBackend } from './types';
+
+export interface CacheInvalidationFilter {
+  productName?: string;
+  country?: string;
+  category?: string;
+  kbVersion?: string;
+  /** Todas as chaves `sicosi:`, `req:` e `stage:` (nunca as de outras apps) */
+  all?: boolean;
+}
+
+export interface InvalidatedEntry {
+  key: string;
+  kind: ParsedCacheKey['kind'];
+  product: string;
+  country: string;
+  category: string | null;
+  kbVersion: string | null;
+}
+
+export interface CacheInvalidationResult {
+  dryRun: boolean;
+  matched: InvalidatedEntry[];
+  deleted: number;
+}
+
+interface CachedAnalysisLike {
+  kbVersion?: string;
+  category?: string;
+  originalProduct?: { category?: string };
+  _meta?: { kbVersion?: string };
+  /** Chaves `req:` guardam o estado do single-flight com a resposta em `result` */
+  result?: CachedAnalysisLike;
+}
+
+/**
+ * Etapas guardam produto/país/categoria no envelope do valor. Etapas sem
+ * país (tradução, tipo, categoria) não são afetadas por filtro de país.
+ */
+async function matchStageEntry(
+  cache: CacheBackend,
+  key: string,
+  filter: CacheInvalidationFilter,
+  product: string | null,
+  country: string | null,
+): Promise<InvalidatedEntry | null> {
+  const entry = await cache.get<StageCacheEntry<unknown>>(key);
+  if (!entry) return null;
+
+  if (product && normalizeProductName(entry.product) !== product) return null;
+  if (country && (entry.country || '').toUpperCase() !== country) return null;
+  if (filter.category && entry.category !== filter.category) return null;
+  if (filter.kbVersion && entry.kbVersion !== filter.kbVersion) return null;
+
+  return {
+    key,
+    kind: 'stage',
+    product: normalizeProductName(entry.product),
+    country: entry.country || '',
+    category: entry.category,
+    kbVersion: entry.kbVersion,
+  };
+}
+
+export function hasInvalidationFilter(filter: CacheInvalidationFilter): boolean {
+  return !!(filter.all || filter.productName || filter.country || filter.category || filter.kbVersion);
+}
+
+/**
+ * Remove (ou só lista, em dry-run) as entradas do cache que atendem a TODOS
+ * os filtros informados. Categoria e versão da KB são lidas do valor
+ * gravado; produto e país vêm da própria chave (ou do envelope, nas etapas).
+ */
+export async function invalidateCache(
+  filter: CacheInvalidationFilter,
+  { dryRun = false, cache = getCache() }: { dryRun?: boolean; cache?: CacheBackend } = {},
+): Promise<CacheInvalidationResult> {
+  if (!hasInvalidationFilter(filter)) {
+    throw new Error('At least one filter (productName, country, category, kbVersion or all) is required');
+  }
+
+  const keys = [
+    ...(await cache.keys(`${ANALYSIS_KEY_PREFIX}*`)),
+    ...(await cache.keys(`${REQUEST_KEY_PREFIX}*`)),
+    ...(await cache.keys(`${STAGE_KEY_PREFIX}*`)),
+  ];
+
+  const product = filter.productName ? normalizeProductName(filter.productName) : null;
+  const country = filter.country ? filter.country.toUpperCase() : null;
+  const needsValue = !!(filter.category || filter.kbVersion);
+
+  const matched: InvalidatedEntry[] = [];
+
+  for (const key of keys) {
+    if (key.startsWith(STAGE_KEY_PREFIX)) {
+      const stageEntry = await matchStageEntry(cache, key, filter, product, country);
+      if (stageEntry) matched.push(stageEntry);
+      continue;
+    }
+
+    const parsed = parseCacheKey(key);
+    if (!parsed) continue;
+
+    if (product) {
+      const expected = parsed.kind === 'request' ? product.replace(/\s+/g, '') : product;
+      if (parsed.product !== expected) continue;
+    }
+
+    if (country && parsed.country.toUpperCase() !== country) continue;
+
+    let category: string | null = null;
+    let kbVersion: string | null = null;
+
+    if (needsValue) {
+      const stored = await cache.get<CachedAnalysisLike>(key);
+      if (!stored) continue;
+      const value = stored.result || stored;
+
+      category = value.originalProduct?.category || value.category || null;
+      kbVersion = value.kbVersion || value._meta?.kbVersion || null;
+
+      if (filter.category && category !== filter.category) continue;
+      if (filter.kbVersion && kbVersion !== filter.kbVersion) continue;
+    }
+
+    matched.push({ key, ...parsed, category, kbVersion });
+  }
+
+  const deleted = dryRun || matched.length === 0 ? 0 : await cache.del(matched.map((entry) => entry.key));
+
+  console.log(
+    `🧹 [CACHE] ${dryRun ? 'Dry-run' : 'Invalidated'}: ${matched.length} keys matched`,
+    filter,
+  );
+
+  return { dryRun, matched, deleted };
+}
@@ -0,0 +1,70 @@
+// services/cache/keys.ts
+
+// Prefixos das chaves do SICOSI: o resto do Redis pode ser de outras apps
+export const ANALYSIS_KEY_PREFIX = 'sicosi:';
+export const REQUEST_KEY_PREFIX = 'req:';
+// Etapas intermediárias do pipeline: `stage:<etapa>:<hash das entradas>`
+export const STAGE_KEY_PREFIX = 'stage:';
+// Jobs assíncronos de análise (não são cache: a invalidação não os toca)
+export const JOB_KEY_PREFIX = 'job:';
+// Histórico durável de análises por produto (sem TTL, fora da invalidação)
+export const HISTORY_KEY_PREFIX = 'history:';
+// Lock do refresh em background de uma análise stale (expira sozinho)
+export const REFRESH_KEY_PREFIX = 'refresh:';
+
+export interface ParsedCacheKey {
+  kind: 'analysis' | 'request' | 'stage';
+  /** Nome normalizado (em `req:` sem espaços) */
+  product: string;
+  country: string;
+}
+
+export function normalizeProductName(productName: string): string {
+  return productName.toLowerCase().trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Chave da análise completa: `sicosi:<nome normalizado>:<país>`
+ */
+export function getAnalysisCacheKey(productName: string, userCountry: string): string {
+  return `${ANALYSIS_KEY_PREFIX}${normalizeProductName(productName)}:${userCountry}`;
+}
+
+/**
+ * Fingerprint da proteção contra requests duplicadas: `req:<nome><país>`
+ * sem espaços e em minúsculas.
+ */
+export function getRequestFingerprintKey(productName: string, userCountry: string): string {
+  const fingerprint = `${productName}:${userCountry}`.toLowerCase().replace(/\s+/g, '');
+  return `${REQUEST_KEY_PREFIX}${fingerprint}`;
+}
+
+/**
+ * Lock do refresh stale-while-revalidate: `refresh:<chave da análise>`
+ */
+export function getRefreshLockKey(analysisKey: string): string {
+  return `${REFRESH_KEY_PREFIX}${analysisKey}`;
+}
+
+/**
+ * Separa produto e país de uma chave do SICOSI. O país é sempre o último
+ * segmento (o nome do produto pode conter ':').
+ */
+export function parseCacheKey(key: string): ParsedCacheKey | null {
+  const kind = key.startsWith(ANALYSIS_KEY_PREFIX)
+    ? 'analysis'
+    : key.startsWith(REQUEST_KEY_PREFIX)
+      ? 'request'
+      : null;
+  if (!kind) return null;
+
+  const body = key.slice(kind === 'analysis' ? ANALYSIS_KEY_PREFIX.length : REQUEST_KEY_PREFIX.length);
+  const separator = body.lastIndexOf(':');
+  if (separator <= 0) return null;
+
+  return {
+    kind,
+    product: body.slice(0, separator),
+    country: body.slice(separator + 1),
+  };
+}
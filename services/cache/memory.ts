@@ -0,0 +1,69 @@
+// services/cache/memory.ts
+import { CacheBackend, globToRegExp } from './types';
+
+interface MemoryEntry {
+  value: unknown;
+  expiresAt: number | null;
+}
+
+/**
+ * Cache LRU em processo. O Map preserva a ordem de inserção: cada leitura
+ * reinsere a chave no fim e a mais antiga (a primeira) é descartada.
+ */
+export function createMemoryCache(maxEntries: number): CacheBackend {
+  const entries = new Map<string, MemoryEntry>();
+
+  const isExpired = (entry: MemoryEntry) => entry.expiresAt !== null && entry.expiresAt <= Date.now();
+
+  return {
+    name: 'memory',
+
+    async get<T>(key: string): Promise<T | null> {
+      const entry = entries.get(key);
+      if (!entry) return null;
+
+      entries.delete(key);
+      if (isExpired(entry)) return null;
+
+      entries.set(key, entry);
+      return entry.value as T;
+    },
+
+    async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+      entries.delete(key);
+      entries.set(key, {
+        // Cópia: mutações do chamador não alteram o valor em cache
+        value: JSON.parse(JSON.stringify(value)),
+        expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : null,
+      });
+
+      while (entries.size > maxEntries) {
+        const oldest = entries.keys().next().value as string;
+        entries.delete(oldest);
+      }
+    },
+
+    async setIfAbsent<T>(key: string, value: T, ttlSeconds?: number): Promise<boolean> {
+      const entry = entries.get(key);
+      if (entry && !isExpired(entry)) return false;
+
+      await this.set(key, value, ttlSeconds);
+      return true;
+    },
+
+    async del(keys: string | string[]): Promise<number> {
+      return (Array.isArray(keys) ? keys : [keys]).filter((key) => entries.delete(key)).length;
+    },
+
+    async keys(pattern: string): Promise<string[]> {
+      const matcher = globToRegExp(pattern);
+      return Array.from(entries.entries())
+        .filter(([key, entry]) => !isExpired(entry) && matcher.test(key))
+        .map(([key]) => key);
+    },
+
+    async flush(): Promise<void> {
+      entries.clear();
+    },
+  };
+}
@@ -0,0 +1,118 @@
+import { randomUUID } from 'crypto';
+import config from '../../config';
+import { getCache } from './index';
+import type { CacheBackend } from './types';
+
+/**
+ * Estado gravado na chave do fingerprint: `running` enquanto o dono do lock
+ * analisa, `done` com o resultado por alguns segundos para quem esperava.
+ */
+export type SingleFlightState<T> =
+  | { status: 'running'; owner: string; startedAt: number }
+  | { status: 'done'; owner: string; result: T; finishedAt: number };
+
+export interface SingleFlightOptions {
+  cache?: CacheBackend;
+  lockTtlSeconds?: number;
+  waitTimeoutMs?: number;
+  pollIntervalMs?: number;
+  resultTtlSeconds?: number;
+}
+
+export interface SingleFlightResult<T> {
+  result: T;
+  /** true quando o resultado veio de outra requisição em andamento */
+  coalesced: boolean;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Executa `run` uma única vez por chave, mesmo entre instâncias: a primeira
+ * requisição pega o lock (SET NX) e as concorrentes esperam o resultado.
+ * Se o dono falhar o lock é liberado e quem espera tenta assumir; se a
+ * espera passar de waitTimeoutMs, a requisição segue sem lock.
+ */
+export async function singleFlight<T>(
+  key: string,
+  run: () => Promise<T>,
+  options: SingleFlightOptions = {},
+): Promise<SingleFlightResult<T>> {
+  const cache = options.cache || getCache();
+  const {
+    lockTtlSeconds = config.cache.singleFlight.lockTtlSeconds,
+    waitTimeoutMs = config.cache.singleFlight.waitTimeoutMs,
+    pollIntervalMs = config.cache.singleFlight.pollIntervalMs,
+    resultTtlSeconds = config.cache.singleFlight.resultTtlSeconds,
+  } = options;
+  const owner = randomUUID();
+
+  const tryAcquire = async (): Promise<boolean> => {
+    try {
+      const running: SingleFlightState<T> = { status: 'running', owner, startedAt: Date.now() };
+      return await cache.setIfAbsent(key, running, lockTtlSeconds);
+    } catch (error) {
+      // Cache fora do ar não pode bloquear a análise
+      console.error('❌ [SINGLE-FLIGHT] Lock error, running without lock:', error);
+      return true;
+    }
+  };
+
+  // Só libera o lock que ainda é desta requisição: se ele expirou e outra
+  // requisição o assumiu, a chave agora é dela
+  const releaseLock = async (): Promise<void> => {
+    const state = await cache.get<SingleFlightState<T>>(key);
+    if (state?.owner === owner) {
+      await cache.del([key]);
+    }
+  };
+
+  const runAsOwner = async (): Promise<SingleFlightResult<T>> => {
+    let result: T;
+    try {
+      result = await run();
+    } catch (error) {
+      await releaseLock().catch(() => undefined);
+      throw error;
+    }
+
+    try {
+      const done: SingleFlightState<T> = { status: 'done', owner, result, finishedAt: Date.now() };
+      await cache.set(key, done, resultTtlSeconds);
+    } catch (error) {
+      console.error('❌ [SINGLE-FLIGHT] Error publishing result:', error);
+    }
+    return { result, coalesced: false };
+  };
+
+  if (await tryAcquire()) {
+    return runAsOwner();
+  }
+
+  console.log(`⏳ [SINGLE-FLIGHT] Waiting for in-flight request: ${key}`);
+  const deadline = Date.now() + waitTimeoutMs;
+
+  while (Date.now() < deadline) {
+    await sleep(pollIntervalMs);
+
+    let state: SingleFlightState<T> | null = null;
+    try {
+      state = await cache.get<SingleFlightState<T>>(key);
+    } catch (error) {
+      console.error('❌ [SINGLE-FLIGHT] Error reading lock state:', error);
+    }
+
+    if (state?.status === 'done') {
+      console.log(`🔗 [SINGLE-FLIGHT] Coalesced with in-flight request: ${key}`);
+      return { result: state.result, coalesced: true };
+    }
+
+    // Lock liberado (dono falhou ou expirou): tenta assumir
+    if (!state && (await tryAcquire())) {
+      return runAsOwner();
+    }
+  }
+
+  console.warn(`⚠️ [SINGLE-FLIGHT] Timed out after ${waitTimeoutMs}ms, running without lock: ${key}`);
+  return { result: await run(), coalesced: false };
+}
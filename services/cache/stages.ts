@@ -0,0 +1,136 @@
+// services/cache/stages.ts
+import alternativesData from '../../data/alternatives.json';
+import config from '../../config';
+import { hashContent } from '../hash';
+import { getCache } from './index';
+import { STAGE_KEY_PREFIX } from './keys';
+import type { AlternativesData } from '../../types';
+
+export type PipelineStage = keyof typeof config.cache.stageTtls;
+
+/**
+ * Envelope gravado para cada etapa: o valor mais os metadados usados na
+ * invalidação (produto, país, categoria, versão da KB).
+ */
+export interface StageCacheEntry<T> {
+  stage: PipelineStage;
+  product: string;
+  country: string | null;
+  category: string | null;
+  kbVersion: string;
+  value: T;
+}
+
+export interface StageCacheContext {
+  product: string;
+  country?: string | null;
+  category?: string | null;
+}
+
+export type StageKnowledgeBase = Pick<AlternativesData, 'version' | 'categories'> & {
+  common_translations?: Record<string, string>;
+  scoring_config?: unknown;
+  text_processing?: unknown;
+};
+
+const knowledgeBase = alternativesData as unknown as StageKnowledgeBase;
+const kbVersion = knowledgeBase.version;
+
+/**
+ * Hash da parte da KB que a etapa lê: editar palavras-chave, traduções
+ * ou scoring_config muda a chave mesmo sem subir a versão da KB.
+ */
+export function getStageKnowledgeHash(stage: PipelineStage, kb: StageKnowledgeBase): string {
+  const mapCategories = (pick: (data: AlternativesData['categories'][string]) => unknown) =>
+    Object.fromEntries(Object.entries(kb.categories).map(([key, data]) => [key, pick(data)]));
+
+  switch (stage) {
+    case 'translation':
+      return hashContent({ common_translations: kb.common_translations || null });
+    case 'productType':
+      return hashContent(mapCategories((data) => data.product_types || null));
+    case 'search':
+      return hashContent(mapCategories((data) => data.certifications));
+    case 'category':
+      return hashContent({
+        categories: mapCategories(({ name, keywords, keyword_synonyms, exclusion_keywords, subcategories }) => ({
+          name,
+          keywords,
+          keyword_synonyms: keyword_synonyms || null,
+          exclusion_keywords: exclusion_keywords || null,
+          subcategories: subcategories || null,
+        })),
+        common_translations: kb.common_translations || null,
+        scoring_config: kb.scoring_config || null,
+        text_processing: kb.text_processing || null,
+      });
+  }
+}
+
+const stageKnowledgeHashes = Object.fromEntries(
+  (Object.keys(config.cache.stageTtls) as PipelineStage[]).map((stage) => [
+    stage,
+    getStageKnowledgeHash(stage, knowledgeBase),
+  ]),
+) as Record<PipelineStage, string>;
+
+/**
+ * Chave da etapa: hash das entradas que determinam o resultado + hash do
+ * conteúdo da KB usado pela etapa, então uma edição no alternatives.json
+ * não reaproveita etapas antigas.
+ */
+export function getStageCacheKey(stage: PipelineStage, inputs: Record<string, unknown>): string {
+  return `${STAGE_KEY_PREFIX}${stage}:${hashContent({ inputs, kb: stageKnowledgeHashes[stage] })}`;
+}
+
+/**
+ * Devolve o resultado da etapa do cache ou calcula e grava com o TTL da
+ * etapa (config.cache.stageTtls). Erro no cache nunca derruba a etapa.
+ * `compute` chama `skipCache` quando devolveu um fallback (erro da IA ou
+ * da busca): o valor é usado nesta análise, mas não fica gravado.
+ */
+export async function withStageCache<T>(
+  stage: PipelineStage,
+  inputs: Record<string, unknown>,
+  context: StageCacheContext,
+  compute: (skipCache: (reason: string) => void) => Promise<T>,
+): Promise<T> {
+  const key = getStageCacheKey(stage, inputs);
+  const cache = getCache();
+
+  try {
+    const cached = await cache.get<StageCacheEntry<T>>(key);
+    if (cached) {
+      console.log(`✅ [CACHE] Stage HIT (${stage}): ${context.product.substring(0, 40)}`);
+      return cached.value;
+    }
+  } catch (error) {
+    console.error(`❌ [CACHE] Stage read error (${stage}):`, error);
+  }
+
+  let skipReason: string | null = null;
+  const value = await compute((reason) => {
+    skipReason = reason;
+  });
+
+  if (skipReason) {
+    console.log(`⚠️ [CACHE] Stage not cached (${stage}): ${skipReason}`);
+    return value;
+  }
+
+  try {
+    const entry: StageCacheEntry<T> = {
+      stage,
+      product: context.product,
+      country: context.country || null,
+      category: context.category || null,
+      kbVersion,
+      value,
+    };
+    await cache.set(key, entry, config.cache.stageTtls[stage]);
+  } catch (error) {
+    console.error(`❌ [CACHE] Stage save error (${stage}):`, error);
+  }
+
+  return value;
+}
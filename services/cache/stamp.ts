@@ -0,0 +1,71 @@
+// services/cache/stamp.ts
+import alternativesData from '../../data/alternatives.json';
+import { hashContent } from '../hash';
+import type { AlternativesData, CategoryData, CertificationRegistry } from '../../types';
+
+const knowledgeBase = alternativesData as unknown as AlternativesData;
+
+/**
+ * Carimbo da base de conhecimento gravado junto de cada análise em cache.
+ */
+export interface KnowledgeBaseStamp {
+  kbVersion: string;
+  /** Hash do conteúdo da categoria (pesos, indicadores, certificações...) */
+  categoryHash: string | null;
+  /** Hash do certification_registry, que decide os bônus de certificação */
+  registryHash: string | null;
+}
+
+export type StampStatus = 'fresh' | 'stale_version' | 'stale_category' | 'stale_registry';
+
+type StampedKnowledgeBase = Pick<AlternativesData, 'version' | 'categories' | 'certification_registry'>;
+
+export function getCategoryContentHash(
+  category: string,
+  categories: Record<string, CategoryData> = knowledgeBase.categories,
+): string | null {
+  const categoryData = categories[category];
+  return categoryData ? hashContent(categoryData) : null;
+}
+
+export function getRegistryContentHash(registry: CertificationRegistry | undefined): string | null {
+  return registry ? hashContent(registry) : null;
+}
+
+export function getKnowledgeBaseStamp(
+  category: string,
+  kb: StampedKnowledgeBase = knowledgeBase,
+): KnowledgeBaseStamp {
+  return {
+    kbVersion: kb.version,
+    categoryHash: getCategoryContentHash(category, kb.categories),
+    registryHash: getRegistryContentHash(kb.certification_registry),
+  };
+}
+
+/**
+ * Compara o carimbo de uma entrada com a base atual. Entradas sem carimbo
+ * (gravadas antes dele existir) contam como versão desatualizada.
+ */
+export function checkKnowledgeBaseStamp(
+  entry: Partial<KnowledgeBaseStamp>,
+  category: string,
+  kb: StampedKnowledgeBase = knowledgeBase,
+): StampStatus {
+  const current = getKnowledgeBaseStamp(category, kb);
+
+  if (entry.kbVersion !== current.kbVersion) {
+    return 'stale_version';
+  }
+
+  if (!entry.categoryHash || entry.categoryHash !== current.categoryHash) {
+    return 'stale_category';
+  }
+
+  // Entradas gravadas antes do hash do registry também são re-pontuadas
+  if ((entry.registryHash ?? null) !== current.registryHash) {
+    return 'stale_registry';
+  }
+
+  return 'fresh';
+}
@@ -0,0 +1,40 @@
+// services/cache/ttl.ts
+import config from '../../config';
+
+export interface CacheTtl {
+  softTtlSeconds: number;
+  hardTtlSeconds: number;
+}
+
+export type CacheFreshness = 'fresh' | 'stale' | 'expired';
+
+/**
+ * TTLs da categoria: override de config.cache.categoryTtls ou o padrão.
+ * O hard TTL nunca fica abaixo do soft.
+ */
+export function getCacheTtl(category?: string): CacheTtl {
+  const override = (category && config.cache.categoryTtls[category]) || {};
+  const softTtlSeconds = override.softTtlSeconds ?? config.cache.softTtlSeconds;
+  const hardTtlSeconds = Math.max(override.hardTtlSeconds ?? config.cache.hardTtlSeconds, softTtlSeconds);
+
+  return { softTtlSeconds, hardTtlSeconds };
+}
+
+/**
+ * Idade da entrada contra os TTLs da categoria. Entradas sem `cachedAt`
+ * (gravadas antes do soft TTL existir) são tratadas como stale.
+ */
+export function getCacheFreshness(
+  cachedAt: number | undefined,
+  category?: string,
+  now: number = Date.now(),
+): CacheFreshness {
+  if (!cachedAt) return 'stale';
+
+  const { softTtlSeconds, hardTtlSeconds } = getCacheTtl(category);
+  const ageSeconds = (now - cachedAt) / 1000;
+
+  if (ageSeconds >= hardTtlSeconds) return 'expired';
+  if (ageSeconds >= softTtlSeconds) return 'stale';
+  return 'fresh';
+}
@@ -0,0 +1,28 @@
+// services/cache/types.ts
+
+/**
+ * Backend de cache chave/valor com TTL. Valores são serializáveis em JSON.
+ */
+export interface CacheBackend {
+  name: string;
+  get<T>(key: string): Promise<T | null>;
+  set<T>(key: string, value: T, ttlSeconds?: number): Promise<void>;
+  /** Grava só se a chave não existir (SET NX); devolve se gravou */
+  setIfAbsent<T>(key: string, value: T, ttlSeconds?: number): Promise<boolean>;
+  /** Remove as chaves e devolve quantas existiam */
+  del(keys: string | string[]): Promise<number>;
+  /** Lista chaves por padrão glob (`*` e `?`), ex: `sicosi:*` */
+  keys(pattern: string): Promise<string[]>;
+  flush(): Promise<void>;
+}
+
+/**
+ * Converte um padrão glob (`*`, `?`) em RegExp ancorada.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    .replace(/\*/g, '.*')
+    .replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`);
+}
@@ -0,0 +1,58 @@
+// services/cache/upstash.ts
+import { Redis } from '@upstash/redis';
+import { CacheBackend } from './types';
+
+const SCAN_BATCH_SIZE = 200;
+
+export function createUpstashCache(url: string, token: string): CacheBackend {
+  const redis = new Redis({ url, token });
+
+  return {
+    name: 'upstash',
+
+    async get<T>(key: string): Promise<T | null> {
+      return redis.get<T>(key);
+    },
+
+    async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+      if (ttlSeconds) {
+        await redis.set(key, value, { ex: ttlSeconds });
+      } else {
+        await redis.set(key, value);
+      }
+    },
+
+    async setIfAbsent<T>(key: string, value: T, ttlSeconds?: number): Promise<boolean> {
+      const result = ttlSeconds
+        ? await redis.set(key, value, { nx: true, ex: ttlSeconds })
+        : await redis.set(key, value, { nx: true });
+      return result === 'OK';
+    },
+
+    async del(keys: string | string[]): Promise<number> {
+      const list = Array.isArray(keys) ? keys : [keys];
+      return list.length > 0 ? redis.del(...list) : 0;
+    },
+
+    // SCAN em vez de KEYS: não bloqueia o Redis com muitas chaves
+    async keys(pattern: string): Promise<string[]> {
+      const found: string[] = [];
+      let cursor: string | number = 0;
+
+      do {
+        const [next, batch]: [string | number, string[]] = await redis.scan(cursor, {
+          match: pattern,
+          count: SCAN_BATCH_SIZE,
+        });
+        found.push(...batch);
+        cursor = next;
+      } while (String(cursor) !== '0');
+
+      return Array.from(new Set(found));
+    },
+
+    async flush(): Promise<void> {
+      await redis.flushdb();
+    },
+  };
+}
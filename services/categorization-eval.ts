@@ -0,0 +1,297 @@
+// services/categorization-eval.ts
+import { hashContent } from './hash';
+import {
+  AiCategoryFallback,
+  categorizeProduct,
+  CategorizationKnowledgeBase,
+  CategorizerOptions,
+  classifyWithAI,
+} from './categorization';
+
+/** Produto rotulado do dataset de avaliação */
+export interface LabeledProduct {
+  name: string;
+  title?: string;
+  description?: string;
+  /** URL da página, quando o dataset traz */
+  url?: string;
+  language: string;
+  expected: string;
+}
+
+export interface EvaluationRecord {
+  name: string;
+  language: string;
+  expected: string;
+  /** null quando o produto não foi classificado (erro ou sem fallback) */
+  predicted: string | null;
+  source: 'keywords' | 'ai' | null;
+  /** As palavras-chave não bastaram e o fallback de IA foi acionado */
+  aiFallback: boolean;
+  error?: string;
+}
+
+export interface CategoryMetrics {
+  /** null quando a categoria nunca foi prevista */
+  precision: number | null;
+  recall: number | null;
+  support: number;
+  predicted: number;
+}
+
+export interface ClassificationMetrics {
+  total: number;
+  correct: number;
+  accuracy: number;
+  perCategory: Record<string, CategoryMetrics>;
+  /** confusion[esperada][prevista]; produtos não classificados ficam em UNCLASSIFIED */
+  confusion: Record<string, Record<string, number>>;
+}
+
+export interface CategorizationEvaluation extends ClassificationMetrics {
+  kbVersion: string | null;
+  keywordsHash: string;
+  aiFallbackCount: number;
+  aiFallbackRate: number;
+  perLanguage: Record<string, { total: number; correct: number; accuracy: number }>;
+  misclassified: EvaluationRecord[];
+}
+
+/** Acurácia mínima guardada para o gate do CI */
+export interface EvaluationBaseline {
+  accuracy: number;
+  /** Queda tolerada antes de falhar (ex.: 0.01 = 1 ponto percentual) */
+  tolerance: number;
+  keywordsHash: string;
+  total: number;
+  updatedAt: string;
+}
+
+export interface BaselineCheck {
+  passed: boolean;
+  keywordsChanged: boolean;
+  message: string;
+}
+
+export const UNCLASSIFIED = '(none)';
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Hash do que decide a categorização por palavras-chave: keywords,
+ * exclusões e sinônimos de cada categoria e da sua taxonomia de
+ * subcategorias, mais os pesos, limiares e o processamento de texto.
+ */
+export function getKeywordsHash(knowledgeBase: CategorizationKnowledgeBase): string {
+  return hashContent({
+    categories: Object.fromEntries(
+      Object.entries(knowledgeBase.categories).map(([key, data]) => [
+        key,
+        {
+          keywords: data.keywords,
+          exclusion_keywords: data.exclusion_keywords || [],
+          keyword_synonyms: data.keyword_synonyms || {},
+          subcategories: data.subcategories || {},
+        },
+      ]),
+    ),
+    common_translations: knowledgeBase.common_translations || {},
+    scoring_config: knowledgeBase.scoring_config,
+    text_processing: knowledgeBase.text_processing || null,
+  });
+}
+
+/**
+ * Acurácia, precisão/recall por categoria e matriz de confusão.
+ */
+export function computeClassificationMetrics(
+  records: Array<Pick<EvaluationRecord, 'expected' | 'predicted'>>,
+  labels: string[],
+): ClassificationMetrics {
+  const confusion: Record<string, Record<string, number>> = {};
+  labels.forEach((label) => (confusion[label] = {}));
+
+  let correct = 0;
+  for (const record of records) {
+    const predicted = record.predicted ?? UNCLASSIFIED;
+    const row = (confusion[record.expected] = confusion[record.expected] || {});
+    row[predicted] = (row[predicted] || 0) + 1;
+    if (record.predicted === record.expected) correct++;
+  }
+
+  const perCategory: Record<string, CategoryMetrics> = {};
+  for (const label of labels) {
+    const truePositives = confusion[label]?.[label] || 0;
+    const support = records.filter((record) => record.expected === label).length;
+    const predicted = records.filter((record) => record.predicted === label).length;
+
+    perCategory[label] = {
+      precision: predicted > 0 ? round(truePositives / predicted) : null,
+      recall: support > 0 ? round(truePositives / support) : null,
+      support,
+      predicted,
+    };
+  }
+
+  return {
+    total: records.length,
+    correct,
+    accuracy: records.length > 0 ? round(correct / records.length) : 0,
+    perCategory,
+    confusion,
+  };
+}
+
+/**
+ * Roda o categorizador sobre o dataset, um produto por vez. Sem
+ * `useAi` o fallback só é contado: o produto fica sem categoria.
+ */
+export async function evaluateCategorizer(
+  dataset: LabeledProduct[],
+  knowledgeBase: CategorizationKnowledgeBase,
+  { useAi = false, translate }: { useAi?: boolean; translate?: CategorizerOptions['translate'] } = {},
+): Promise<CategorizationEvaluation> {
+  const records: EvaluationRecord[] = [];
+
+  for (const item of dataset) {
+    let aiFallback = false;
+    const fallback: AiCategoryFallback = async (input, kb) => {
+      aiFallback = true;
+      if (!useAi) {
+        throw new Error('AI fallback disabled for offline evaluation');
+      }
+      return classifyWithAI(input, kb);
+    };
+
+    const record: EvaluationRecord = {
+      name: item.name,
+      language: item.language,
+      expected: item.expected,
+      predicted: null,
+      source: null,
+      aiFallback: false,
+    };
+
+    try {
+      const result = await categorizeProduct(
+        {
+          productName: item.name,
+          pageTitle: item.title || '',
+          description: item.description || '',
+          pageUrl: item.url || '',
+        },
+        { knowledgeBase, aiFallback: fallback, translate },
+      );
+      record.predicted = result.category;
+      record.source = result.source;
+    } catch (error) {
+      record.error = error instanceof Error ? error.message : String(error);
+    }
+
+    record.aiFallback = aiFallback;
+    records.push(record);
+  }
+
+  const metrics = computeClassificationMetrics(records, Object.keys(knowledgeBase.categories));
+  const aiFallbackCount = records.filter((record) => record.aiFallback).length;
+
+  const perLanguage: CategorizationEvaluation['perLanguage'] = {};
+  for (const record of records) {
+    const entry = (perLanguage[record.language] = perLanguage[record.language] || {
+      total: 0,
+      correct: 0,
+      accuracy: 0,
+    });
+    entry.total++;
+    if (record.predicted === record.expected) entry.correct++;
+    entry.accuracy = round(entry.correct / entry.total);
+  }
+
+  return {
+    ...metrics,
+    kbVersion: knowledgeBase.version || null,
+    keywordsHash: getKeywordsHash(knowledgeBase),
+    aiFallbackCount,
+    aiFallbackRate: records.length > 0 ? round(aiFallbackCount / records.length) : 0,
+    perLanguage,
+    misclassified: records.filter((record) => record.predicted !== record.expected),
+  };
+}
+
+/**
+ * Falha quando a acurácia cai abaixo da baseline menos a tolerância.
+ */
+export function checkAgainstBaseline(
+  evaluation: CategorizationEvaluation,
+  baseline: EvaluationBaseline,
+): BaselineCheck {
+  const minimum = round(baseline.accuracy - baseline.tolerance);
+  const keywordsChanged = evaluation.keywordsHash !== baseline.keywordsHash;
+  const passed = evaluation.accuracy >= minimum;
+  const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+  return {
+    passed,
+    keywordsChanged,
+    message: passed
+      ? `Accuracy ${pct(evaluation.accuracy)} >= minimum ${pct(minimum)} (baseline ${pct(baseline.accuracy)})`
+      : `Accuracy ${pct(evaluation.accuracy)} dropped below minimum ${pct(minimum)} (baseline ${pct(baseline.accuracy)})`,
+  };
+}
+
+/**
+ * Relatório em texto: resumo, métricas por categoria e idioma, matriz
+ * de confusão (colunas numeradas na ordem das linhas) e os erros.
+ */
+export function formatEvaluationReport(evaluation: CategorizationEvaluation, { maxErrors = 30 } = {}): string {
+  const pct = (value: number | null) => (value === null ? '   -  ' : `${(value * 100).toFixed(1).padStart(5)}%`);
+  const labels = Object.keys(evaluation.perCategory);
+  const width = Math.max(...labels.map((label) => label.length), UNCLASSIFIED.length);
+  const lines: string[] = [];
+
+  lines.push(`KB ${evaluation.kbVersion ?? '?'} · keywords hash ${evaluation.keywordsHash}`);
+  lines.push(
+    `Accuracy: ${pct(evaluation.accuracy)} (${evaluation.correct}/${evaluation.total}) · ` +
+      `AI fallback: ${pct(evaluation.aiFallbackRate)} (${evaluation.aiFallbackCount}/${evaluation.total})`,
+  );
+
+  lines.push('', 'Per language:');
+  for (const [language, entry] of Object.entries(evaluation.perLanguage)) {
+    lines.push(`  ${language}  ${pct(entry.accuracy)} (${entry.correct}/${entry.total})`);
+  }
+
+  lines.push('', `${'Category'.padEnd(width)}  Precision  Recall  Support`);
+  for (const label of labels) {
+    const metrics = evaluation.perCategory[label];
+    lines.push(
+      `${label.padEnd(width)}  ${pct(metrics.precision).padStart(9)}  ${pct(metrics.recall)}  ${String(metrics.support).padStart(7)}`,
+    );
+  }
+
+  const columns = [...labels, UNCLASSIFIED];
+  lines.push('', 'Confusion matrix (rows: expected, columns: predicted)');
+  lines.push(`${''.padEnd(width + 4)}${columns.map((_, index) => String(index + 1).padStart(4)).join('')}`);
+  labels.forEach((label, row) => {
+    const cells = columns.map((column) => {
+      const count = evaluation.confusion[label]?.[column] || 0;
+      return (count === 0 ? '.' : String(count)).padStart(4);
+    });
+    lines.push(`${String(row + 1).padStart(2)} ${label.padEnd(width)} ${cells.join('')}`);
+  });
+  lines.push(`${columns.length} = ${UNCLASSIFIED}`);
+
+  if (evaluation.misclassified.length > 0) {
+    lines.push('', `Misclassified (${evaluation.misclassified.length}):`);
+    for (const record of evaluation.misclassified.slice(0, maxErrors)) {
+      lines.push(
+        `  [${record.language}] ${record.name}: expected ${record.expected}, got ${record.predicted ?? UNCLASSIFIED}` +
+          (record.error && !record.aiFallback ? ` (${record.error})` : ''),
+      );
+    }
+    if (evaluation.misclassified.length > maxErrors) {
+      lines.push(`  ... ${evaluation.misclassified.length - maxErrors} more`);
+    }
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,910 @@
+// services/categorization.ts
+import alternativesData from '../data/alternatives.json';
+import config from '../config';
+import { createGroqClient, getGroqApiKey } from './groq-factory';
+import {
+  buildKeywordVocabulary,
+  DEFAULT_KEYWORD_MATCHING,
+  KeywordMatchingConfig,
+  KeywordMatchType,
+  KeywordVariant,
+  detectLanguage,
+  matchKeywords,
+  StemmingLanguage,
+  toStemmingLanguage,
+} from './keyword-matching';
+import { matchRetailerPaths, parseProductUrl, UrlSignalsConfig } from './url-signals';
+
+export interface ScoringConfig {
+  source_weights: {
+    product_name_translated: number;
+    product_name_original: number;
+    page_title: number;
+    description: number;
+    url: number;
+  };
+  validation_thresholds: {
+    minimum_score: number;
+    confidence_ratio: number;
+    exclusion_penalty: number;
+  };
+  /**
+   * Produtos em mais de uma categoria: secundárias com score de
+   * palavras-chave >= secondary_min_ratio × o maior score dividem
+   * secondary_share dos pesos dos critérios (proporcional ao score)
+   */
+  multi_category?: {
+    max_secondary: number;
+    secondary_min_ratio: number;
+    secondary_share: number;
+    /**
+     * Palavras-chave que descrevem atributo, não o produto ("organic",
+     * "reusable"): sozinhas não tornam a categoria secundária
+     */
+    generic_keywords?: string[];
+  };
+  /** Radical, n-gramas e erros de digitação; ausente = exato + radical */
+  keyword_matching?: Partial<KeywordMatchingConfig>;
+  /** Caminho da URL: segmentos ignorados e mapeamentos por loja */
+  url_signals?: UrlSignalsConfig;
+}
+
+export interface TextProcessingConfig {
+  remove_accents: boolean;
+  lowercase: boolean;
+  remove_punctuation: boolean;
+  word_boundary_matching: boolean;
+}
+
+/**
+ * Nó da taxonomia (ex.: textiles_clothing → footwear → sneakers). As
+ * palavras-chave de um nó também contam para todos os seus ancestrais.
+ */
+export interface SubcategoryKeywords {
+  name: string;
+  keywords: string[];
+  keyword_synonyms?: Record<string, string[]>;
+  subcategories?: Record<string, SubcategoryKeywords>;
+}
+
+/** Parte de uma categoria do alternatives.json usada na classificação */
+export interface CategoryKeywords extends SubcategoryKeywords {
+  exclusion_keywords?: string[];
+}
+
+/**
+ * Base de conhecimento da classificação: o alternatives.json por padrão,
+ * injetável para testes e avaliação de KBs alternativas.
+ */
+export interface CategorizationKnowledgeBase {
+  version?: string;
+  categories: Record<string, CategoryKeywords>;
+  common_translations?: Record<string, string>;
+  scoring_config: ScoringConfig;
+  text_processing?: TextProcessingConfig;
+}
+
+export interface ScoringSource {
+  text: string;
+  weight: number;
+  /** Idioma do texto: decide as regras de radical (sem ele, o primeiro configurado) */
+  language?: StemmingLanguage | null;
+}
+
+export interface KeywordMatch {
+  /** Palavra-chave da categoria */
+  keyword: string;
+  /** Trecho do texto que casou (sinônimo, plural, erro de digitação...) */
+  variant: string;
+  /** `retailer_path`: segmento da URL mapeado para a categoria na config da loja */
+  type: KeywordMatchType | 'retailer_path';
+  count: number;
+  points: number;
+}
+
+export interface CategoryScore {
+  category: string;
+  score: number;
+  matches: KeywordMatch[];
+  exclusions: string[];
+  confidence: 'high' | 'medium' | 'low';
+}
+
+export interface SecondaryCategory {
+  category: string;
+  score: number;
+  /** Fração dos pesos dos critérios que vem desta categoria */
+  share: number;
+}
+
+export interface CategorizationInput {
+  productName: string;
+  description?: string;
+  pageTitle?: string;
+  pageUrl?: string;
+  /** Idioma dos textos do produto (pt, pt-BR, es...); sem ele, é detectado */
+  language?: string;
+}
+
+export interface AiFallbackInput {
+  name: string;
+  translated: string;
+  title: string;
+}
+
+/** Classificador usado quando as palavras-chave não são conclusivas */
+export type AiCategoryFallback = (
+  input: AiFallbackInput,
+  knowledgeBase: CategorizationKnowledgeBase,
+) => Promise<string>;
+
+export interface CategorizerOptions {
+  knowledgeBase?: CategorizationKnowledgeBase;
+  /** null desativa o fallback (baixa confiança vira erro) */
+  aiFallback?: AiCategoryFallback | null;
+  translate?: (name: string) => Promise<string>;
+  /** Quantos scores devolver no resultado (os maiores) */
+  topN?: number;
+}
+
+export interface CategorizationResult {
+  category: string;
+  /** Confiança das palavras-chave; `low` quando a IA decidiu */
+  confidence: CategoryScore['confidence'];
+  source: 'keywords' | 'ai';
+  translatedName: string;
+  winner: CategoryScore | null;
+  scores: CategoryScore[];
+  /** Caminho na taxonomia abaixo da categoria (ex.: ['footwear', 'sneakers']) */
+  subcategoryPath: string[];
+  secondaryCategories: SecondaryCategory[];
+}
+
+const DEFAULT_TOP_N = 5;
+
+const defaultKnowledgeBase = alternativesData as unknown as CategorizationKnowledgeBase;
+
+/**
+ * Produto que não dá para classificar: nome genérico demais, confiança
+ * baixa sem IA disponível ou IA sem uma categoria válida da KB.
+ */
+export class CategorizationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CategorizationError';
+  }
+}
+
+// ======= UTILIDADES DE TEXTO =======
+function getTextProcessingConfig(knowledgeBase: CategorizationKnowledgeBase): TextProcessingConfig {
+  return (
+    knowledgeBase.text_processing || {
+      remove_accents: true,
+      lowercase: true,
+      remove_punctuation: true,
+      word_boundary_matching: true,
+    }
+  );
+}
+
+export function normalizeCategoryText(
+  text: string,
+  knowledgeBase: CategorizationKnowledgeBase = defaultKnowledgeBase,
+): string {
+  const settings = getTextProcessingConfig(knowledgeBase);
+  let result = text || '';
+
+  if (settings.lowercase) {
+    result = result.toLowerCase();
+  }
+
+  if (settings.remove_accents) {
+    result = result.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+  }
+
+  if (settings.remove_punctuation) {
+    result = result.replace(/[^a-z0-9\s]/g, ' ');
+  }
+
+  return result.replace(/\s+/g, ' ').trim();
+}
+
+function expandKeywordWithSynonyms(keyword: string, synonymsMap: Record<string, string[]> = {}): string[] {
+  const normalizedKeyword = (keyword || '').toLowerCase();
+  const variants = new Set<string>([normalizedKeyword]);
+
+  const synonyms = synonymsMap[normalizedKeyword] || [];
+  synonyms.forEach((syn) => variants.add((syn || '').toLowerCase()));
+
+  if (!normalizedKeyword.endsWith('s')) {
+    variants.add(`${normalizedKeyword}s`);
+  }
+  variants.add(normalizedKeyword.replace(/s$/, ''));
+
+  return Array.from(variants).filter(Boolean);
+}
+
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function countMatches(text: string, keyword: string, settings: TextProcessingConfig): number {
+  const safeKeyword = escapeRegex((keyword || '').toLowerCase());
+
+  if (settings.word_boundary_matching) {
+    const pattern = new RegExp(`\\b${safeKeyword}\\b`, 'gi');
+    const matches = text.match(pattern);
+    return matches ? matches.length : 0;
+  }
+
+  return (text.match(new RegExp(safeKeyword, 'gi')) || []).length;
+}
+
+// ======= PONTUAÇÃO POR PALAVRAS-CHAVE =======
+/**
+ * Palavras-chave e sinônimos do nó mais os de todas as subcategorias.
+ */
+function collectTaxonomyKeywords(node: SubcategoryKeywords): {
+  keywords: string[];
+  synonyms: Record<string, string[]>;
+} {
+  const keywords = new Set(node.keywords);
+  const synonyms: Record<string, string[]> = { ...(node.keyword_synonyms || {}) };
+
+  for (const child of Object.values(node.subcategories || {})) {
+    const collected = collectTaxonomyKeywords(child);
+    collected.keywords.forEach((keyword) => keywords.add(keyword));
+    for (const [keyword, values] of Object.entries(collected.synonyms)) {
+      synonyms[keyword] = Array.from(new Set([...(synonyms[keyword] || []), ...values]));
+    }
+  }
+
+  return { keywords: Array.from(keywords), synonyms };
+}
+
+function getKeywordMatchingConfig(knowledgeBase: CategorizationKnowledgeBase): KeywordMatchingConfig {
+  const configured = knowledgeBase.scoring_config.keyword_matching || {};
+
+  return {
+    ...DEFAULT_KEYWORD_MATCHING,
+    ...configured,
+    match_weights: { ...DEFAULT_KEYWORD_MATCHING.match_weights, ...configured.match_weights },
+    fuzzy: { ...DEFAULT_KEYWORD_MATCHING.fuzzy, ...configured.fuzzy },
+  };
+}
+
+const variantCache = new WeakMap<SubcategoryKeywords, KeywordVariant[]>();
+const vocabularyCache = new WeakMap<CategorizationKnowledgeBase, Set<string>>();
+
+/**
+ * Palavras-chave e sinônimos do nó (com as subcategorias) normalizados
+ * como o texto: "colchão" casa com "colchao", "e-reader" com "e reader".
+ */
+function getKeywordVariants(node: SubcategoryKeywords, knowledgeBase: CategorizationKnowledgeBase): KeywordVariant[] {
+  const cached = variantCache.get(node);
+  if (cached) return cached;
+
+  const { keywords, synonyms } = collectTaxonomyKeywords(node);
+  const variants: KeywordVariant[] = [];
+
+  for (const keyword of keywords) {
+    const texts = new Set(
+      [keyword, ...(synonyms[keyword.toLowerCase()] || [])].map((text) => normalizeCategoryText(text, knowledgeBase)),
+    );
+    texts.forEach((text) => text && variants.push({ keyword, tokens: text.split(' ') }));
+  }
+
+  variantCache.set(node, variants);
+  return variants;
+}
+
+function getKeywordVocabulary(knowledgeBase: CategorizationKnowledgeBase): Set<string> {
+  let vocabulary = vocabularyCache.get(knowledgeBase);
+
+  if (!vocabulary) {
+    const variants = Object.values(knowledgeBase.categories).flatMap((node) => getKeywordVariants(node, knowledgeBase));
+    vocabulary = buildKeywordVocabulary(variants, getKeywordMatchingConfig(knowledgeBase));
+    vocabularyCache.set(knowledgeBase, vocabulary);
+  }
+
+  return vocabulary;
+}
+
+const roundPoints = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Pontos do nó: cada casamento vale ocorrências × peso da fonte × peso
+ * do tipo de casamento. Sem word_boundary_matching, mantém a busca
+ * por substring das variantes (só casamento exato).
+ */
+function scoreTaxonomyNode(
+  node: SubcategoryKeywords,
+  normalizedSources: ScoringSource[],
+  knowledgeBase: CategorizationKnowledgeBase,
+): { score: number; matches: KeywordMatch[] } {
+  const settings = getTextProcessingConfig(knowledgeBase);
+  let score = 0;
+  const matches: KeywordMatch[] = [];
+
+  if (!settings.word_boundary_matching) {
+    const { keywords, synonyms } = collectTaxonomyKeywords(node);
+
+    for (const source of normalizedSources) {
+      for (const keyword of keywords) {
+        for (const variant of expandKeywordWithSynonyms(keyword, synonyms)) {
+          const matchCount = countMatches(source.text, variant, settings);
+
+          if (matchCount > 0) {
+            const points = matchCount * source.weight;
+            score += points;
+            matches.push({ keyword, variant, type: 'exact', count: matchCount, points });
+          }
+        }
+      }
+    }
+
+    return { score, matches };
+  }
+
+  const matching = getKeywordMatchingConfig(knowledgeBase);
+  const variants = getKeywordVariants(node, knowledgeBase);
+  const vocabulary = getKeywordVocabulary(knowledgeBase);
+
+  for (const source of normalizedSources) {
+    const tokens = source.text.split(' ').filter(Boolean);
+
+    for (const match of matchKeywords(tokens, variants, matching, vocabulary, source.language)) {
+      const points = roundPoints(match.count * source.weight * matching.match_weights[match.type]);
+      score += points;
+      matches.push({ keyword: match.keyword, variant: match.text, type: match.type, count: match.count, points });
+    }
+  }
+
+  return { score: roundPoints(score), matches };
+}
+
+function normalizeSources(sources: ScoringSource[], knowledgeBase: CategorizationKnowledgeBase): ScoringSource[] {
+  return sources
+    .filter((source) => source.text && source.weight !== 0)
+    .map((source) => ({ ...source, text: normalizeCategoryText(source.text, knowledgeBase) }));
+}
+
+export function calculateCategoryScores(
+  sources: ScoringSource[],
+  knowledgeBase: CategorizationKnowledgeBase = defaultKnowledgeBase,
+): CategoryScore[] {
+  const normalizedSources = normalizeSources(sources, knowledgeBase);
+
+  return Object.entries(knowledgeBase.categories).map(([categoryKey, categoryData]) => ({
+    category: categoryKey,
+    ...scoreTaxonomyNode(categoryData, normalizedSources, knowledgeBase),
+    exclusions: [],
+    confidence: 'medium' as const,
+  }));
+}
+
+/**
+ * Desce na taxonomia da categoria escolhendo, em cada nível, a
+ * subcategoria com mais pontos; para quando nenhuma filha pontua.
+ */
+export function resolveSubcategoryPath(
+  category: string,
+  sources: ScoringSource[],
+  knowledgeBase: CategorizationKnowledgeBase = defaultKnowledgeBase,
+): string[] {
+  const normalizedSources = normalizeSources(sources, knowledgeBase);
+  const path: string[] = [];
+  let node: SubcategoryKeywords | undefined = knowledgeBase.categories[category];
+
+  while (node?.subcategories) {
+    let best: { key: string; score: number } | null = null;
+
+    for (const [key, child] of Object.entries(node.subcategories)) {
+      const { score } = scoreTaxonomyNode(child, normalizedSources, knowledgeBase);
+      if (score > 0 && (!best || score > best.score)) {
+        best = { key, score };
+      }
+    }
+
+    if (!best) break;
+    path.push(best.key);
+    node = node.subcategories[best.key];
+  }
+
+  return path;
+}
+
+/**
+ * Categorias secundárias: acima do minimum_score, com pelo menos
+ * secondary_min_ratio do maior score e com uma palavra-chave específica
+ * (ou mais de uma genérica). Recebe os scores antes das exclusões, que só
+ * barram a principal. Dividem secondary_share proporcionalmente ao
+ * score; sem multi_category na KB, nenhuma.
+ */
+export function selectSecondaryCategories(
+  scores: CategoryScore[],
+  primary: string,
+  knowledgeBase: CategorizationKnowledgeBase = defaultKnowledgeBase,
+): SecondaryCategory[] {
+  const settings = knowledgeBase.scoring_config.multi_category;
+  if (!settings || settings.max_secondary <= 0 || settings.secondary_share <= 0) {
+    return [];
+  }
+
+  const { minimum_score } = knowledgeBase.scoring_config.validation_thresholds;
+  const topScore = Math.max(0, ...scores.map((score) => score.score));
+  const genericKeywords = new Set((settings.generic_keywords || []).map((keyword) => keyword.toLowerCase()));
+
+  // "organic" sozinho não faz de uma roupa um alimento
+  const hasSpecificMatch = (score: CategoryScore) => {
+    const keywords = new Set(score.matches.map((match) => match.keyword.toLowerCase()));
+    return keywords.size > 1 || Array.from(keywords).some((keyword) => !genericKeywords.has(keyword));
+  };
+
+  const candidates = scores
+    .filter(
+      (score) =>
+        score.category !== primary &&
+        score.score >= minimum_score &&
+        score.score >= topScore * settings.secondary_min_ratio &&
+        hasSpecificMatch(score),
+    )
+    .sort((a, b) => b.score - a.score)
+    .slice(0, settings.max_secondary);
+
+  const total = candidates.reduce((sum, score) => sum + score.score, 0);
+
+  return candidates.map((score) => ({
+    category: score.category,
+    score: score.score,
+    share: Math.round((settings.secondary_share * score.score * 10000) / total) / 10000,
+  }));
+}
+
+/**
+ * Soma os mapeamentos de caminho da loja (url_signals.retailer_paths):
+ * cada segmento mapeado vale source_weights.url × retailer_mapping_weight
+ * para a categoria configurada. Sem url_signals ou com peso 0, nada muda.
+ */
+export function applyRetailerPathMappings(
+  scores: CategoryScore[],
+  pageUrl: string,
+  knowledgeBase: CategorizationKnowledgeBase = defaultKnowledgeBase,
+): CategoryScore[] {
+  const settings = knowledgeBase.scoring_config.url_signals;
+  if (!settings) return scores;
+
+  const points = roundPoints(knowledgeBase.scoring_config.source_weights.url * settings.retailer_mapping_weight);
+  const signal = parseProductUrl(pageUrl, settings.ignored_segments);
+  if (!signal || points <= 0) return scores;
+
+  const mapped = matchRetailerPaths(signal, settings.retailer_paths).filter(
+    (match) => knowledgeBase.categories[match.category],
+  );
+
+  return scores.map((score) => {
+    const own = mapped.filter((match) => match.category === score.category);
+    if (own.length === 0) return score;
+
+    return {
+      ...score,
+      score: roundPoints(score.score + own.length * points),
+      matches: [
+        ...score.matches,
+        ...own.map((match) => ({
+          keyword: match.segment,
+          variant: `${signal.host}/${match.segment}`,
+          type: 'retailer_path' as const,
+          count: 1,
+          points,
+        })),
+      ],
+    };
+  });
+}
+
+export function applyExclusionRules(
+  scores: CategoryScore[],
+  primaryText: string,
+  knowledgeBase: CategorizationKnowledgeBase = defaultKnowledgeBase,
+): CategoryScore[] {
+  const settings = getTextProcessingConfig(knowledgeBase);
+  const normalizedPrimary = normalizeCategoryText(primaryText, knowledgeBase);
+  const penalty = knowledgeBase.scoring_config?.validation_thresholds?.exclusion_penalty ?? -999;
+
+  return scores.map((scoreData) => {
+    const categoryData = knowledgeBase.categories[scoreData.category];
+    const exclusionKeywords = categoryData.exclusion_keywords || [];
+    const exclusionsFound: string[] = [];
+
+    for (const exclusionKw of exclusionKeywords) {
+      const allVariants = expandKeywordWithSynonyms(exclusionKw, categoryData.keyword_synonyms);
+
+      for (const variant of allVariants) {
+        if (countMatches(normalizedPrimary, variant, settings) > 0) {
+          exclusionsFound.push(variant);
+        }
+      }
+    }
+
+    if (exclusionsFound.length > 0) {
+      return {
+        ...scoreData,
+        score: scoreData.score + penalty,
+        exclusions: exclusionsFound,
+      };
+    }
+
+    return scoreData;
+  });
+}
+
+export function selectWinner(
+  scores: CategoryScore[],
+  knowledgeBase: CategorizationKnowledgeBase = defaultKnowledgeBase,
+): CategoryScore | null {
+  const thresholds = knowledgeBase.scoring_config.validation_thresholds;
+  const sorted = [...scores].sort((a, b) => b.score - a.score);
+  const first = sorted[0];
+  const second = sorted[1];
+
+  if (!first || first.score < thresholds.minimum_score) {
+    console.log(`❌ [CATEGORY] Winner score too low: ${first?.score ?? 0} < ${thresholds.minimum_score}`);
+    return null;
+  }
+
+  const ratio = second && second.score > 0 ? first.score / second.score : Infinity;
+
+  if (ratio < thresholds.confidence_ratio) {
+    first.confidence = 'low';
+    console.log(`⚠️ [CATEGORY] Low confidence: ratio ${ratio.toFixed(2)} < ${thresholds.confidence_ratio}`);
+  } else if (ratio >= thresholds.confidence_ratio * 1.5) {
+    first.confidence = 'high';
+  } else {
+    first.confidence = 'medium';
+  }
+
+  if (first.exclusions.length > 0) {
+    console.log(`❌ [CATEGORY] Exclusions found for ${first.category}:`, first.exclusions);
+    return null;
+  }
+
+  return first;
+}
+
+// ======= FALLBACK COM IA =======
+/**
+ * Fallback padrão: pede ao Groq a chave da categoria e corrige erros
+ * de digitação comuns antes de validar contra a KB.
+ */
+export const classifyWithAI: AiCategoryFallback = async ({ name, translated, title }, knowledgeBase) => {
+  const groqApiKey = getGroqApiKey();
+  if (!groqApiKey) {
+    throw new CategorizationError('Cannot classify: low confidence and no AI available');
+  }
+
+  const categories = knowledgeBase.categories;
+  const categoryList = Object.entries(categories)
+    .map(([key, data]) => `- ${key}: ${data.name} (keywords: ${data.keywords.slice(0, 5).join(', ')})`)
+    .join('\n');
+
+  const prompt = `Classify this product into ONE category:
+
+PRODUCT: ${name}
+TRANSLATED: ${translated}
+PAGE TITLE: ${title}
+
+AVAILABLE CATEGORIES:
+${categoryList}
+
+Return ONLY the category key (e.g., "fashion_apparel").
+Category:`;
+
+  // Falha de transporte (timeout, 5xx, rede) sobe como está: é
+  // indisponibilidade temporária, não produto inclassificável
+  let rawCategory: string | undefined;
+  try {
+    const groq = createGroqClient(groqApiKey);
+    const completion = await groq.chat.completions.create({
+      messages: [
+        {
+          role: 'system',
+          content: 'Return only the category key, nothing else.',
+        },
+        { role: 'user', content: prompt },
+      ],
+      model: config.groq.defaultModel,
+      temperature: config.groq.operations.typeDetection.temperature,
+      max_tokens: config.groq.operations.typeDetection.maxTokens,
+    });
+    rawCategory = completion.choices[0]?.message?.content?.trim();
+  } catch (error) {
+    console.error('❌ [CATEGORY] AI classification failed:', error);
+    throw error;
+  }
+
+  if (!rawCategory) {
+    console.error('❌ [CATEGORY] AI returned an empty response');
+    throw new CategorizationError('Could not identify product category');
+  }
+
+  let aiCategory = rawCategory.toLowerCase();
+
+  // NORMALIZE COMMON TYPOS
+  const typoMap: Record<string, string> = {
+    reuseable_zero_waste: 'reusable_zero_waste',
+    reuseable: 'reusable',
+    sustinable: 'sustainable',
+    sustianable: 'sustainable',
+    reneweable: 'renewable',
+    recylable: 'recyclable',
+    recycleable: 'recyclable',
+    biodegradeable: 'biodegradable',
+    composteable: 'compostable',
+    enviroment: 'environment',
+    enviorment: 'environment',
+  };
+
+  // Apply typo corrections
+  for (const [typo, correct] of Object.entries(typoMap)) {
+    if (aiCategory.includes(typo)) {
+      console.log(`🔧 [CATEGORY] Fixing typo: "${typo}" → "${correct}"`);
+      aiCategory = aiCategory.replace(typo, correct);
+    }
+  }
+
+  console.log(`🏷️ [CATEGORY] Normalized category: "${aiCategory}"`);
+
+  if (aiCategory && categories[aiCategory]) {
+    console.log(`🤖 [CATEGORY] AI classified as: ${aiCategory}`);
+    return aiCategory;
+  }
+
+  console.error(`❌ [CATEGORY] Invalid category after normalization: "${aiCategory}"`);
+  console.error(`📋 [CATEGORY] Available categories:`, Object.keys(categories));
+  throw new CategorizationError(`AI returned invalid category: ${aiCategory}`);
+};
+
+function logCategorizationResult(allScores: CategoryScore[], winner: CategoryScore | null): void {
+  console.log('🔍 [CATEGORY] Detailed Analysis:');
+  console.log('━'.repeat(60));
+
+  const top3 = [...allScores].sort((a, b) => b.score - a.score).slice(0, 3);
+
+  for (const score of top3) {
+    console.log(`\n📊 ${score.category}: ${score.score} points`);
+    if (score.matches.length > 0) {
+      const matches = score.matches.map(
+        (match) =>
+          `${match.variant}${match.type === 'exact' ? '' : ` ~${match.keyword} [${match.type}]`} (${match.count}x, +${match.points}pts)`,
+      );
+      console.log(`   ✓ Matches: ${matches.join(', ')}`);
+    }
+    if (score.exclusions.length > 0) {
+      console.log(`   ✗ Exclusions: ${score.exclusions.join(', ')}`);
+    }
+  }
+
+  console.log('\n' + '━'.repeat(60));
+
+  if (winner) {
+    console.log(`✅ [CATEGORY] Winner: ${winner.category}`);
+    console.log(`   Confidence: ${winner.confidence}`);
+    console.log(`   Score: ${winner.score}`);
+  } else {
+    console.log('❌ [CATEGORY] No valid winner found');
+  }
+
+  console.log('━'.repeat(60));
+}
+
+// ===== TRADUÇÃO DO NOME =====
+/**
+ * Traduz o nome para inglês: dicionário common_translations da KB
+ * primeiro, Groq só quando o dicionário não reconhece nenhuma palavra.
+ * `onFallback` avisa quando a IA não respondeu e o nome voltou sem
+ * tradução (quem guarda o resultado em cache não deve gravá-lo).
+ */
+export async function translateProductName(
+  name: string,
+  knowledgeBase: CategorizationKnowledgeBase = defaultKnowledgeBase,
+  onFallback: (reason: string) => void = () => {},
+): Promise<string> {
+  if (!name || name.trim().length === 0) {
+    console.log('⚠️ [TRANSLATE] Empty product name provided');
+    return '';
+  }
+  // Se já está em inglês, retornar
+  if (/^[a-zA-Z0-9\s\-_]+$/.test(name)) {
+    return name;
+  }
+
+  // ✅ CORREÇÃO 6: DICIONÁRIO BÁSICO DE TRADUÇÃO (dinâmico do JSON)
+  const basicTranslations: Record<string, string> = knowledgeBase.common_translations || {
+    // Fallback caso o JSON falhe
+    sapato: 'shoe',
+    sapatos: 'shoes',
+    salto: 'heel',
+    saltos: 'heels',
+    tênis: 'sneaker',
+    tenis: 'sneaker',
+  };
+
+  // Tentar tradução básica primeiro
+  const words = name.toLowerCase().split(/\s+/);
+  const basicTranslation = words.map((word) => basicTranslations[word] || word).join(' ');
+
+  // Se conseguiu traduzir algo, usar
+  if (basicTranslation !== name.toLowerCase()) {
+    console.log(`🌐 [TRANSLATE] Basic: "${name}" → "${basicTranslation}"`);
+    return basicTranslation;
+  }
+
+  const groqApiKey = getGroqApiKey();
+  if (!groqApiKey) {
+    console.log('⚠️ [TRANSLATE] No API key, using basic translation');
+    onFallback('no API key');
+    return basicTranslation;
+  }
+
+  try {
+    const groq = createGroqClient(groqApiKey);
+    const completion = await groq.chat.completions.create({
+      messages: [
+        {
+          role: 'system',
+          content: 'Translate to English. Return ONLY the translation, nothing else.',
+        },
+        { role: 'user', content: name },
+      ],
+      model: config.groq.defaultModel,
+      temperature: config.groq.operations.translation.temperature,
+      max_tokens: config.groq.operations.translation.maxTokens,
+    });
+
+    const translation = completion.choices[0]?.message?.content?.trim();
+    if (translation && translation.length > 0) {
+      console.log(`🌐 [TRANSLATE] AI: "${name}" → "${translation}"`);
+      return translation;
+    }
+
+    console.log('⚠️ [TRANSLATE] AI failed, using basic translation');
+    onFallback('empty AI translation');
+    return basicTranslation;
+  } catch (error) {
+    console.error('❌ [TRANSLATE] Error:', error);
+    onFallback('AI translation error');
+    return basicTranslation;
+  }
+}
+
+// ===== CLASSIFICAÇÃO =====
+function assertSpecificProductName(productName: string): void {
+  const nameLower = productName.toLowerCase().trim();
+
+  const isTooShort = nameLower.length < 3;
+  const isJustNumbers = /^\d+$/.test(nameLower);
+  const isGenericWord = ['product', 'item', 'thing', 'test', 'xyz', 'abc'].includes(nameLower);
+
+  if (isTooShort || isJustNumbers || isGenericWord) {
+    throw new CategorizationError('Could not identify product category - product name too generic or incomplete');
+  }
+}
+
+/**
+ * Classifica o produto pelas palavras-chave da KB (nome traduzido, nome
+ * original, título, descrição e caminho da URL com os pesos de
+ * scoring_config, mais os mapeamentos de caminho da loja) e recorre
+ * ao fallback de IA quando não há vencedor ou a confiança é baixa.
+ */
+export async function categorizeProduct(
+  input: CategorizationInput,
+  options: CategorizerOptions = {},
+): Promise<CategorizationResult> {
+  const knowledgeBase = options.knowledgeBase || defaultKnowledgeBase;
+  const aiFallback = options.aiFallback === undefined ? classifyWithAI : options.aiFallback;
+  const translate = options.translate || ((name: string) => translateProductName(name, knowledgeBase));
+
+  const name = input.productName || '';
+  const desc = input.description || '';
+  const title = input.pageTitle || '';
+  const url = input.pageUrl || '';
+
+  assertSpecificProductName(name);
+
+  const translated = await translate(name);
+  if (!name && !desc && !title && !url) {
+    console.error('❌ [CATEGORY] No product information provided');
+    throw new Error(
+      'Product information is required. Please provide at least a product name, description, title, or URL.',
+    );
+  }
+  const weights = knowledgeBase.scoring_config.source_weights;
+
+  // Palavras do caminho da URL (departamentos e slug do produto)
+  const urlText = parseProductUrl(url, knowledgeBase.scoring_config.url_signals?.ignored_segments)?.text || '';
+
+  const textSample = [translated, name, title, desc, urlText].filter(Boolean).join(' | ');
+  console.log('🔍 [CATEGORY] Text sample:', textSample ? textSample.substring(0, 150) : '(empty)');
+
+  // Idioma dos textos da página: o do pedido ou, sem ele, o detectado
+  const language =
+    toStemmingLanguage(input.language) ||
+    detectLanguage([name, title, desc].join(' '), getKeywordMatchingConfig(knowledgeBase).stemming_languages);
+  console.log('🌐 [CATEGORY] Text language:', language || '(unknown)');
+
+  const sources: ScoringSource[] = [
+    // A tradução é para inglês; sem tradução, volta o próprio nome
+    { text: translated, weight: weights.product_name_translated, language: translated === name ? language : 'en' },
+    { text: name, weight: weights.product_name_original, language },
+    { text: title, weight: weights.page_title, language },
+    { text: desc, weight: weights.description, language },
+    { text: urlText, weight: weights.url, language },
+  ];
+
+  const categoryScores = applyRetailerPathMappings(
+    calculateCategoryScores(sources, knowledgeBase),
+    url,
+    knowledgeBase,
+  );
+  // Exclusões barram só a principal: "phone" exclui energy_utilities como
+  // categoria do carregador, não como secundária dele
+  const filteredScores = applyExclusionRules(categoryScores, translated, knowledgeBase);
+  const winner = selectWinner(filteredScores, knowledgeBase);
+
+  logCategorizationResult(filteredScores, winner);
+
+  const scores = [...filteredScores]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, Math.max(1, options.topN ?? DEFAULT_TOP_N));
+
+  // Taxonomia e categorias secundárias valem para o vencedor, seja ele
+  // das palavras-chave ou do fallback de IA
+  const withTaxonomy = (category: string) => ({
+    subcategoryPath: resolveSubcategoryPath(category, sources, knowledgeBase),
+    secondaryCategories: selectSecondaryCategories(categoryScores, category, knowledgeBase),
+  });
+
+  if (winner && winner.confidence !== 'low') {
+    return {
+      category: winner.category,
+      confidence: winner.confidence,
+      source: 'keywords',
+      translatedName: translated,
+      winner,
+      scores,
+      ...withTaxonomy(winner.category),
+    };
+  }
+
+  if (!aiFallback) {
+    throw new CategorizationError('Cannot classify: low confidence and no AI available');
+  }
+
+  console.log('⚠️ [CATEGORY] Low confidence, using AI fallback');
+  const category = await aiFallback({ name, translated, title }, knowledgeBase);
+  if (!knowledgeBase.categories[category]) {
+    throw new CategorizationError(`AI returned invalid category: ${category}`);
+  }
+
+  return {
+    category,
+    confidence: 'low',
+    source: 'ai',
+    translatedName: translated,
+    winner,
+    scores,
+    ...withTaxonomy(category),
+  };
+}
+
+/**
+ * Atalho de categorizeProduct que devolve só a chave da categoria.
+ */
+export async function identifyCategory(
+  input: CategorizationInput,
+  options: CategorizerOptions = {},
+): Promise<string> {
+  const result = await categorizeProduct(input, options);
+  return result.category;
+}
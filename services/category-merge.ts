@@ -0,0 +1,97 @@
+// services/category-merge.ts
+import type { SustainabilityCriterion, SustainabilityIndicator } from '../types';
+
+export interface CategoryShare {
+  category: string;
+  /** Fração dos pesos que vem da categoria (a primária fica com o resto) */
+  share: number;
+}
+
+export interface MergeableCategory {
+  sustainability_criteria: Record<string, SustainabilityCriterion>;
+  certifications: string[];
+}
+
+const round = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Critérios de um produto em várias categorias: o peso de cada critério
+ * é a média dos pesos das categorias ponderada pelo `share` de cada uma
+ * (renormalizada para a soma dos pesos da primária); indicadores,
+ * guidelines e certificações são unidos. Sem secundárias válidas, devolve
+ * a própria categoria primária (mesmo objeto, mesmo hash no cache).
+ */
+export function mergeCategoryCriteria<T extends MergeableCategory>(
+  primary: string,
+  secondaries: CategoryShare[] | undefined,
+  categories: Record<string, T>,
+): T {
+  const primaryData = categories[primary];
+  const valid = (secondaries || []).filter(
+    (secondary) => secondary.category !== primary && secondary.share > 0 && categories[secondary.category],
+  );
+
+  if (!primaryData || valid.length === 0) {
+    return primaryData;
+  }
+
+  const secondaryTotal = valid.reduce((sum, secondary) => sum + secondary.share, 0);
+  if (secondaryTotal >= 1) {
+    throw new Error(`Secondary category shares must add up to less than 1 (got ${secondaryTotal})`);
+  }
+
+  const parts = [
+    { data: primaryData, share: 1 - secondaryTotal },
+    ...valid.map((secondary) => ({ data: categories[secondary.category], share: secondary.share })),
+  ];
+
+  const weights: Record<string, number> = {};
+  const merged: Record<string, SustainabilityCriterion> = {};
+
+  for (const { data, share } of parts) {
+    for (const [name, criterion] of Object.entries(data.sustainability_criteria || {})) {
+      weights[name] = (weights[name] || 0) + share * (criterion.weight || 0);
+
+      const target = (merged[name] = merged[name] || { weight: 0 });
+      if (Array.isArray(criterion.indicators)) {
+        const known = new Set((target.indicators || []).map((indicator) => indicator.id || indicator.name));
+        const added = criterion.indicators.filter(
+          (indicator: SustainabilityIndicator) => !known.has(indicator.id || indicator.name),
+        );
+        target.indicators = [...(target.indicators || []), ...added];
+      }
+      if (Array.isArray(criterion.guidelines)) {
+        target.guidelines = Array.from(new Set([...(target.guidelines || []), ...criterion.guidelines]));
+      }
+    }
+  }
+
+  const primaryWeight = Object.values(primaryData.sustainability_criteria || {}).reduce(
+    (sum, criterion) => sum + (criterion.weight || 0),
+    0,
+  );
+  const mergedWeight = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+
+  for (const name of Object.keys(merged)) {
+    merged[name].weight = mergedWeight > 0 ? round((weights[name] / mergedWeight) * primaryWeight) : 0;
+  }
+
+  return {
+    ...primaryData,
+    sustainability_criteria: merged,
+    certifications: Array.from(new Set(parts.flatMap(({ data }) => data.certifications || []))),
+  };
+}
+
+/**
+ * Mapa de categorias com a primária substituída pelos critérios
+ * mesclados: é o que o score, o carimbo do cache e o histórico usam.
+ */
+export function withMergedCategory<T extends MergeableCategory>(
+  primary: string,
+  secondaries: CategoryShare[] | undefined,
+  categories: Record<string, T>,
+): Record<string, T> {
+  const merged = mergeCategoryCriteria(primary, secondaries, categories);
+  return merged === categories[primary] ? categories : { ...categories, [primary]: merged };
+}
@@ -0,0 +1,134 @@
+import alternativesData from '../data/alternatives.json';
+import type {
+  AlternativesData,
+  CertificationRegistry,
+  CertificationRegistryEntry,
+} from '../types';
+
+/**
+ * Certificação citada pelo produto e encontrada no certification_registry.
+ */
+export interface RecognizedCertification {
+  id: string;
+  name: string;
+  issuer: string;
+  scope: string;
+  type: CertificationRegistryEntry['type'];
+  labelText: string;
+  /** Texto como veio da fonte (ex: "FSC® Mix 70%") */
+  claimed: string;
+}
+
+export interface CertificationAssessment {
+  /** Selos de terceira parte, governamentais ou regulatórios reconhecidos */
+  recognized: RecognizedCertification[];
+  /** Autodeclarações sem emissor independente (ex: "eco-friendly") */
+  selfDeclared: RecognizedCertification[];
+  /** Citações que não batem com nenhum selo do registry */
+  unrecognized: string[];
+}
+
+const defaultRegistry: CertificationRegistry =
+  (alternativesData as unknown as AlternativesData).certification_registry || {};
+
+/**
+ * Normaliza o texto de um selo para comparação:
+ * minúsculas, sem acentos, sem ®/™/© e sem pontuação.
+ */
+export function normalizeCertificationLabel(label: string): string {
+  return label
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[®™©]/g, '')
+    .replace(/[^a-z0-9%]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Encontra o selo do registry citado no texto. Os aliases precisam casar
+ * como palavras inteiras; quando mais de um casa, vence o alias mais longo
+ * ("usda organic" vence a autodeclaração "organic").
+ */
+export function matchCertification(
+  label: string,
+  registry: CertificationRegistry = defaultRegistry,
+): { id: string; entry: CertificationRegistryEntry } | null {
+  const normalized = ` ${normalizeCertificationLabel(label)} `;
+  if (normalized.trim().length === 0) return null;
+
+  let best: { id: string; entry: CertificationRegistryEntry; length: number } | null = null;
+
+  for (const [id, entry] of Object.entries(registry)) {
+    for (const alias of [entry.name, ...(entry.aliases || [])]) {
+      const normalizedAlias = normalizeCertificationLabel(alias);
+      if (!normalizedAlias || !normalized.includes(` ${normalizedAlias} `)) continue;
+
+      if (!best || normalizedAlias.length > best.length) {
+        best = { id, entry, length: normalizedAlias.length };
+      }
+    }
+  }
+
+  return best ? { id: best.id, entry: best.entry } : null;
+}
+
+/**
+ * Verifica as certificações citadas contra o registry, separando selos
+ * reconhecidos, autodeclarações e citações desconhecidas.
+ */
+export function assessCertifications(
+  claimed: string[] | undefined,
+  registry: CertificationRegistry = defaultRegistry,
+): CertificationAssessment {
+  const assessment: CertificationAssessment = {
+    recognized: [],
+    selfDeclared: [],
+    unrecognized: [],
+  };
+  const seen = new Set<string>();
+
+  for (const label of Array.isArray(claimed) ? claimed : []) {
+    if (typeof label !== 'string' || label.trim().length === 0) continue;
+
+    const match = matchCertification(label, registry);
+    if (!match) {
+      assessment.unrecognized.push(label.trim());
+      continue;
+    }
+
+    if (seen.has(match.id)) continue;
+    seen.add(match.id);
+
+    const certification: RecognizedCertification = {
+      id: match.id,
+      name: match.entry.name,
+      issuer: match.entry.issuer,
+      scope: match.entry.scope,
+      type: match.entry.type,
+      labelText: match.entry.label_text,
+      claimed: label.trim(),
+    };
+
+    if (match.entry.type === 'self_declared') {
+      assessment.selfDeclared.push(certification);
+    } else {
+      assessment.recognized.push(certification);
+    }
+  }
+
+  return assessment;
+}
+
+/**
+ * Pontos de bônus que o selo concede a um critério (0 quando não se aplica).
+ */
+export function getCriterionCredit(
+  certificationId: string,
+  criterionName: string,
+  registry: CertificationRegistry = defaultRegistry,
+): number {
+  const entry = registry[certificationId];
+  if (!entry || entry.type === 'self_declared') return 0;
+  return entry.criteria_credits?.[criterionName] || 0;
+}
@@ -0,0 +1,289 @@
+import config from '../config';
+import webSearchClient from './web-search-client';
+import { formatSourcesForPrompt, toEvidenceRecords } from './fact-extractor';
+import { matchCertification } from './certification-registry';
+import type { SearchResult } from '../types';
+import { createGroqClient } from './groq-factory';
+
+export type ClaimVerdict = 'supported' | 'contradicted' | 'vague' | 'unverifiable';
+
+export interface ClaimSnippet {
+  text: string;
+  sourceUrl: string | null;
+}
+
+export interface ClaimVerification {
+  claim: string;
+  verdict: ClaimVerdict;
+  explanation: string;
+  /** Termos genéricos encontrados (só para o veredito `vague`) */
+  vagueTerms: string[];
+  /** Trechos das fontes que sustentam ou contradizem a alegação */
+  snippets: ClaimSnippet[];
+}
+
+export interface ClaimsReport {
+  productName: string;
+  claims: ClaimVerification[];
+  summary: Record<ClaimVerdict, number>;
+  greenwashingRisk: 'low' | 'medium' | 'high';
+}
+
+interface VagueClaimPattern {
+  term: string;
+  pattern: RegExp;
+  reason: string;
+}
+
+// Materiais em que "natural" é o nome do material, não uma alegação
+// ("natural rubber", "borracha natural", "caucho natural")
+const NATURAL_MATERIALS =
+  'rubber|latex|l[aá]tex|gas|g[aá]s|fibers?|fibres?|fibras?|cork|corti[cç]a|corcho|borracha|caucho|wool|l[aã]|lana|silk|seda|stone|pedra|piedra|wood|madeira|madera';
+
+const GENERIC_CLAIM_REASON =
+  'Generic environmental claim without a specific, substantiated qualifier (EU Green Claims: banned unless backed by recognised excellent environmental performance)';
+
+// Alegações ambientais genéricas (Diretiva (UE) 2024/825 e proposta de
+// Green Claims Directive): só são aceitáveis com qualificador específico
+export const VAGUE_CLAIM_PATTERNS: VagueClaimPattern[] = [
+  {
+    term: 'eco-friendly',
+    pattern: /\b(eco[\s-]?friendly|environment(al)?ly[\s-]friendly|planet[\s-]friendly|earth[\s-]friendly|nature'?s friend)\b/i,
+    reason: GENERIC_CLAIM_REASON,
+  },
+  {
+    term: 'friendly to the environment',
+    pattern: /\b(amig[oa]s? d[oa] (meio )?ambiente|amigable con el (medio )?ambiente|gentle on the (environment|planet))\b/i,
+    reason: GENERIC_CLAIM_REASON,
+  },
+  {
+    term: 'green',
+    pattern: /\b(green|verde)\b/i,
+    reason: GENERIC_CLAIM_REASON,
+  },
+  {
+    term: 'natural',
+    pattern: new RegExp(
+      `(?<!\\b(?:${NATURAL_MATERIALS})\\s)\\b(natural|naturais|naturales)\\b(?!\\s(?:${NATURAL_MATERIALS})\\b)`,
+      'i',
+    ),
+    reason: 'Generic claim: "natural" does not describe any specific environmental benefit',
+  },
+  {
+    term: 'ecological',
+    pattern: /\b(eco(?![\s-]?friendly)|ecological|ecol[oó]gic[oa]s?|environmentally (correct|responsible))\b/i,
+    reason: GENERIC_CLAIM_REASON,
+  },
+  {
+    term: 'sustainable',
+    pattern: /\b(sustainable|sustent[aá]vel|sustent[aá]veis|sostenibles?|conscious|consciente|responsible|respons[aá]vel)\b/i,
+    reason: GENERIC_CLAIM_REASON,
+  },
+  {
+    term: 'climate neutral',
+    pattern: /\b(climate[\s-]friendly|carbon[\s-]friendly|climate[\s-]neutral|carbon[\s-]neutral|co2[\s-]neutral|net[\s-]zero|carbono neutro|neutro en carbono)\b/i,
+    reason: 'Climate-neutral claims based on offsetting are banned under EU rules; they need a verified reduction plan and the product-level footprint',
+  },
+  {
+    term: 'biodegradable',
+    pattern: /\b(biodegradable|biodegrad[aá]vel|biodegrad[aá]veis|compostable|compost[aá]vel)\b/i,
+    reason: 'Biodegradability claims need the standard, conditions and timeframe (e.g. EN 13432, industrial composting)',
+  },
+  {
+    term: 'non-toxic',
+    pattern: /\b(non[\s-]?toxic|at[oó]xico|no t[oó]xico|chemical[\s-]free|sem qu[ií]micos)\b/i,
+    reason: 'Generic safety claim without the substances or test standard it refers to',
+  },
+];
+
+// Percentuais ("80% recycled", "-40% CO2"), quantidades com unidade
+// ("2 kg CO2e", "30 kWh") e normas ("EN 13432") qualificam a alegação;
+// um número solto ("since 1990") não, e "100% natural" não diz nada mensurável
+const QUANTIFIED_CLAIM_PATTERN =
+  /\d+(?:[.,]\d+)?\s?(?:%|(?:percent|por cento|por ciento|[kmt]?g|tons?|tonnes?|toneladas?|[km]?wh|m?l|liters?|litres?|litros?|km|m[23]|co2e?)\b)|\b(?:iso|en|astm|din|nbr|abnt)\s?\d{3,}/i;
+const HUNDRED_PERCENT_PATTERN = /\b100\s?%\s*/g;
+const VAGUE_TERM_AT_START = VAGUE_CLAIM_PATTERNS.map(({ pattern }) => new RegExp(`^(?:${pattern.source})`, 'i'));
+
+/**
+ * Descarta o "100%" que modifica diretamente um termo vago ("100% natural");
+ * "100% recycled plastic" continua sendo um qualificador.
+ */
+function removeEmptyQuantifiers(claim: string): string {
+  return claim.replace(HUNDRED_PERCENT_PATTERN, (match: string, offset: number) => {
+    const rest = claim.slice(offset + match.length);
+    return VAGUE_TERM_AT_START.some((pattern) => pattern.test(rest)) ? ' ' : match;
+  });
+}
+
+// Criado no primeiro uso: a detecção de linguagem vaga não precisa do Groq
+let groq: ReturnType<typeof createGroqClient> | null = null;
+
+function getGroq(): ReturnType<typeof createGroqClient> {
+  return (groq = groq || createGroqClient());
+}
+
+/**
+ * Detecta linguagem ambiental vaga. Uma alegação só é vaga quando usa um
+ * termo genérico SEM qualificador: percentual, quantidade com unidade,
+ * norma técnica ou selo reconhecido no certification_registry.
+ */
+export function detectVagueLanguage(claim: string): { vague: boolean; terms: string[]; reasons: string[] } {
+  const matches = VAGUE_CLAIM_PATTERNS.filter(({ pattern }) => pattern.test(claim));
+  if (matches.length === 0) {
+    return { vague: false, terms: [], reasons: [] };
+  }
+
+  const certification = matchCertification(claim);
+  const qualified =
+    QUANTIFIED_CLAIM_PATTERN.test(removeEmptyQuantifiers(claim)) ||
+    (certification !== null && certification.entry.type !== 'self_declared');
+
+  if (qualified) {
+    return { vague: false, terms: [], reasons: [] };
+  }
+
+  return {
+    vague: true,
+    terms: matches.map(({ term }) => term),
+    reasons: Array.from(new Set(matches.map(({ reason }) => reason))),
+  };
+}
+
+/**
+ * Pede ao LLM o veredito da alegação com base APENAS nas fontes encontradas,
+ * citando o número da fonte de cada trecho.
+ */
+async function judgeClaim(
+  productName: string,
+  claim: string,
+  sources: SearchResult[],
+): Promise<ClaimVerification> {
+  const prompt = `You are a greenwashing auditor. Decide whether the sources support a product's environmental claim.
+
+PRODUCT: ${productName}
+CLAIM: "${claim}"
+
+SOURCES FROM WEB SEARCH:
+${formatSourcesForPrompt(sources)}
+
+INSTRUCTIONS:
+1. "supported": an independent or verifiable source confirms the claim as stated
+2. "contradicted": a source shows the claim is false, overstated or misleading
+3. "unverifiable": the sources say nothing conclusive (the manufacturer repeating its own claim is NOT verification)
+4. Quote the exact snippets that support or contradict the claim and cite the source number
+
+Return ONLY a valid JSON object:
+{
+  "verdict": "supported" | "contradicted" | "unverifiable",
+  "explanation": "One sentence explaining the verdict",
+  "evidence": [{ "text": "exact snippet", "source": 1 }]
+}`;
+
+  const completion = await getGroq().chat.completions.create({
+    messages: [{ role: 'user', content: prompt }],
+    model: config.groq.defaultModel,
+    temperature: 0.1,
+    response_format: { type: 'json_object' },
+  });
+
+  const raw = JSON.parse(completion.choices[0].message.content || '{}');
+  const verdict: ClaimVerdict = ['supported', 'contradicted', 'unverifiable'].includes(raw.verdict)
+    ? raw.verdict
+    : 'unverifiable';
+  const snippets = toEvidenceRecords(raw.evidence, sources, null).map(({ text, sourceUrl }) => ({
+    text,
+    sourceUrl,
+  }));
+
+  // Sem trecho citado não há como sustentar nem contradizer
+  if (verdict !== 'unverifiable' && snippets.length === 0) {
+    return {
+      claim,
+      verdict: 'unverifiable',
+      explanation: 'No source snippet backs this verdict.',
+      vagueTerms: [],
+      snippets: [],
+    };
+  }
+
+  return {
+    claim,
+    verdict,
+    explanation: typeof raw.explanation === 'string' ? raw.explanation : '',
+    vagueTerms: [],
+    snippets,
+  };
+}
+
+/**
+ * Verifica uma alegação: linguagem vaga é apontada sem busca; as demais
+ * são confrontadas com a evidência da web.
+ */
+export async function verifyClaim(productName: string, claim: string): Promise<ClaimVerification> {
+  const vagueness = detectVagueLanguage(claim);
+  if (vagueness.vague) {
+    return {
+      claim,
+      verdict: 'vague',
+      explanation: vagueness.reasons.join(' '),
+      vagueTerms: vagueness.terms,
+      snippets: [],
+    };
+  }
+
+  const evidence = await webSearchClient.searchClaimEvidence(productName, claim);
+  const sources = evidence.results || [];
+
+  if (!evidence.success || sources.length === 0) {
+    return {
+      claim,
+      verdict: 'unverifiable',
+      explanation: 'No web evidence found for this claim.',
+      vagueTerms: [],
+      snippets: [],
+    };
+  }
+
+  try {
+    return await judgeClaim(productName, claim, sources);
+  } catch (error) {
+    console.error('❌ [CLAIMS] Error judging claim:', claim, error);
+    return {
+      claim,
+      verdict: 'unverifiable',
+      explanation: 'Evidence could not be evaluated.',
+      vagueTerms: [],
+      snippets: [],
+    };
+  }
+}
+
+/**
+ * Veredito por alegação e risco de greenwashing do conjunto.
+ */
+export async function verifyClaims(productName: string, claims: string[]): Promise<ClaimsReport> {
+  console.log(`🔎 [CLAIMS] Verifying ${claims.length} claims for "${productName}"`);
+
+  const verifications = await Promise.all(claims.map((claim) => verifyClaim(productName, claim)));
+
+  const summary: Record<ClaimVerdict, number> = {
+    supported: 0,
+    contradicted: 0,
+    vague: 0,
+    unverifiable: 0,
+  };
+  verifications.forEach(({ verdict }) => {
+    summary[verdict]++;
+  });
+
+  let greenwashingRisk: ClaimsReport['greenwashingRisk'] = 'low';
+  if (summary.contradicted > 0) {
+    greenwashingRisk = 'high';
+  } else if (summary.vague > 0 || summary.unverifiable > summary.supported) {
+    greenwashingRisk = 'medium';
+  }
+
+  console.log('✅ [CLAIMS] Verdicts:', summary, `risk: ${greenwashingRisk}`);
+
+  return { productName, claims: verifications, summary, greenwashingRisk };
+}
@@ -1,24 +1,96 @@
-import Groq from 'groq-sdk';
 import alternativesData from '../data/alternatives.json';
-import { Indicator } from '../types';
-import { ProductFacts } from './scoring-engine';
+import type { SearchResult, SustainabilityCriterion, SustainabilityIndicator } from '../types';
+import {
+  CriterionEvaluation,
+  EvidenceRecord,
+  IndicatorEvaluation,
+  IndicatorStatus,
+  ProductFacts,
+} from './scoring-engine';
+import { createGroqClient } from './groq-factory';
+
+const INDICATOR_STATUSES: IndicatorStatus[] = ['met', 'unmet', 'unknown'];
+
+// Modelo da extração de fatos (registrado no histórico de análises)
+export const FACT_EXTRACTION_MODEL = 'llama-3.3-70b-versatile';
+
+// Criado no primeiro uso: importar o módulo não exige a chave do Groq
+let groq: ReturnType<typeof createGroqClient> | null = null;
+
+function getGroq(): ReturnType<typeof createGroqClient> {
+  return (groq = groq || createGroqClient());
+}
+
+/**
+ * Formata os resultados do Tavily como fontes numeradas para o prompt.
+ * O número de cada fonte é usado pelo LLM para citar a evidência.
+ */
+export function formatSourcesForPrompt(sources: SearchResult[], answer?: string | null): string {
+  const lines = sources.map(
+    (source, index) => `[${index + 1}] ${source.title}\nURL: ${source.url}\n${source.snippet}`,
+  );
+
+  if (answer) {
+    lines.unshift(`[0] Search summary (no URL)\n${answer}`);
+  }
 
-const groq = new Groq({
-  apiKey: process.env.GROQ_API_KEY!,
-});
+  return lines.length > 0 ? lines.join('\n\n') : 'No web evidence found for this product.';
+}
+
+/**
+ * Converte a evidência devolvida pelo LLM em registros estruturados,
+ * resolvendo o número da fonte para a URL real do resultado do Tavily.
+ */
+export function toEvidenceRecords(
+  rawEvidence: unknown,
+  sources: SearchResult[],
+  indicatorId: string | null,
+): EvidenceRecord[] {
+  if (!Array.isArray(rawEvidence)) {
+    return [];
+  }
+
+  const knownUrls = new Set(sources.map((source) => source.url));
+
+  return rawEvidence
+    .map((item: any): EvidenceRecord | null => {
+      if (typeof item === 'string') {
+        return { text: item, sourceUrl: null, indicatorId };
+      }
+
+      if (!item || typeof item.text !== 'string' || item.text.trim().length === 0) {
+        return null;
+      }
+
+      let sourceUrl: string | null = null;
+      const sourceIndex = Number(item.source);
+      if (Number.isInteger(sourceIndex) && sourceIndex >= 1 && sourceIndex <= sources.length) {
+        sourceUrl = sources[sourceIndex - 1].url;
+      } else if (typeof item.source === 'string' && knownUrls.has(item.source)) {
+        sourceUrl = item.source;
+      }
+
+      return { text: item.text.trim(), sourceUrl, indicatorId };
+    })
+    .filter((record): record is EvidenceRecord => record !== null);
+}
 
 /**
  * Usa o LLM APENAS para extrair fatos estruturados do produto.
- * NÃO calcula score final - apenas avalia cada critério de 0-100.
+ * NÃO calcula score - avalia cada indicador contra o seu `target`
+ * (met/unmet/unknown), ligando cada evidência à fonte (URL).
+ * `criteriaOverride`: critérios mesclados de um produto multi-categoria.
  */
 export async function extractProductFacts(
   productName: string,
   category: string,
-  searchContext: string
+  sources: SearchResult[],
+  searchAnswer?: string | null,
+  criteriaOverride?: Record<string, SustainabilityCriterion>
 ): Promise<ProductFacts> {
   const alternativesConfig = alternativesData as any;
   const categoryData = alternativesConfig.categories[category];
-  const criteria = categoryData.sustainability_criteria;
+  const criteria = criteriaOverride || categoryData.sustainability_criteria;
 
   if (!criteria || typeof criteria !== 'object') {
     console.error('[FACT-EXTRACTOR] Missing sustainability_criteria for category:', category);
@@ -27,7 +99,7 @@ export async function extractProductFacts(
   // Construir lista de critérios com indicators
   const criteriaList = Object.entries(criteria || {})
     .map(([name, config]: [string, any]) => {
-      const indicators = Array.isArray(config?.indicators) ? (config.indicators as Indicator[]) : [];
+      const indicators = Array.isArray(config?.indicators) ? (config.indicators as SustainabilityIndicator[]) : [];
 
       if (indicators.length === 0) {
         console.warn(
@@ -37,16 +109,13 @@ export async function extractProductFacts(
       }
 
       const indicatorsText = indicators
-        .map((indicator: Indicator, index) => {
+        .map((indicator: SustainabilityIndicator, index) => {
           const title = indicator.name || indicator.id || `Indicator ${index + 1}`;
+          const idText = indicator.id ? ` [id: ${indicator.id}]` : '';
           const description = indicator.description || 'No description provided.';
-          const evalCriteria = indicator.evaluation_criteria;
-
-          const evaluationText = evalCriteria
-            ? `\nEvaluation criteria:\n- Excellent (${evalCriteria.excellent?.threshold ?? 'n/a'}): ${evalCriteria.excellent?.description ?? 'Not provided'}\n- Good (${evalCriteria.good?.threshold ?? 'n/a'}): ${evalCriteria.good?.description ?? 'Not provided'}\n- Acceptable (${evalCriteria.acceptable?.threshold ?? 'n/a'}): ${evalCriteria.acceptable?.description ?? 'Not provided'}\n- Poor (${evalCriteria.poor?.threshold ?? 'n/a'}): ${evalCriteria.poor?.description ?? 'Not provided'}`
-            : '';
+          const targetText = indicator.target ? `\n  Target: ${indicator.target}` : '';
 
-          return `- ${title}: ${description}${evaluationText}`;
+          return `- ${title}${idText}: ${description}${targetText}`;
         })
         .join('\n');
 
@@ -57,45 +126,44 @@ ${indicatorsText || '- No indicators configured'}`;
     })
     .join('\n');
 
-  const prompt = `You are a sustainability analyst. Analyze this product and evaluate EACH criterion from 0 to 100.
+  const prompt = `You are a sustainability analyst. Analyze this product and evaluate EACH indicator against its target.
 
 PRODUCT: ${productName}
 CATEGORY: ${category}
 
-CONTEXT FROM WEB SEARCH:
-${searchContext}
+SOURCES FROM WEB SEARCH:
+${formatSourcesForPrompt(sources, searchAnswer)}
 
 CRITERIA TO EVALUATE:
 ${criteriaList}
 
 INSTRUCTIONS:
-1. For EACH criterion above, assign a score from 0-100 based on how well the product meets the indicators
-2. Provide evidence from the context that supports your score
-3. If no information is available for a criterion, use score: 0
-4. Be objective and base scores ONLY on evidence found in the context
+1. For EACH indicator above, decide its status against the indicator's Target:
+   - "met": the sources show the product reaches the target
+   - "unmet": the sources show the product does NOT reach the target
+   - "unknown": the sources say nothing conclusive about this target
+2. Provide evidence sentences from the sources that support each status
+3. For EACH evidence, cite the number of the source it came from ("source")
+4. Be objective and base statuses ONLY on evidence found in the sources
 5. Also extract any certifications and origin information if available
 
 Return ONLY a valid JSON object with this EXACT structure:
 {
   "durability": {
-    "score": 75,
-    "evidence": ["Product has 5-year warranty", "Aluminum construction"]
-  },
-  "repairability": {
-    "score": 60,
-    "evidence": ["Some parts replaceable", "No official repair manual found"]
-  },
-  "recyclability": {
-    "score": 80,
-    "evidence": ["95% recyclable materials", "Take-back program available"]
-  },
-  "energy_efficiency": {
-    "score": 85,
-    "evidence": ["Energy Star certified", "Low standby power"]
-  },
-  "materials": {
-    "score": 70,
-    "evidence": ["30% recycled content", "RoHS compliant"]
+    "indicators": {
+      "electronics_durability_1": {
+        "status": "met",
+        "evidence": [{ "text": "Product has 5-year warranty", "source": 1 }]
+      },
+      "electronics_durability_2": {
+        "status": "unmet",
+        "evidence": [{ "text": "Battery is glued and not user-replaceable", "source": 3 }]
+      },
+      "electronics_durability_3": {
+        "status": "unknown",
+        "evidence": []
+      }
+    }
   },
   "certifications": ["Energy Star", "RoHS", "TCO Certified"],
   "origin": "China"
@@ -103,15 +171,18 @@ Return ONLY a valid JSON object with this EXACT structure:
 
 IMPORTANT: 
 - Return ONLY the JSON object, no other text
-- Use the EXACT criterion names from the list above
-- Scores must be integers from 0 to 100
-- Do NOT calculate a final score - just evaluate each criterion`;
+- Use the EXACT criterion names and indicator ids from the list above
+- Include EVERY indicator id of every criterion
+- "status" must be one of: "met", "unmet", "unknown"
+- Missing information is NOT a failure: use "unknown", never "unmet", when the sources are silent
+- "source" must be the number of a source listed above - never invent sources
+- Do NOT calculate any score - just evaluate each indicator`;
 
   console.log('🤖 [GROQ] Extracting product facts...');
 
-  const completion = await groq.chat.completions.create({
+  const completion = await getGroq().chat.completions.create({
     messages: [{ role: 'user', content: prompt }],
-    model: 'llama-3.3-70b-versatile',
+    model: FACT_EXTRACTION_MODEL,
     temperature: 0.1,
     response_format: { type: 'json_object' },
   });
@@ -136,6 +207,36 @@ IMPORTANT:
 
   const facts = normalizeKeysToLower(rawFacts) as ProductFacts;
 
+  // Normaliza o status de cada indicador e liga a evidência à URL da fonte
+  for (const [criterionName, criterionConfig] of Object.entries(criteria || {}) as [string, any][]) {
+    const rawEvaluation = facts[criterionName] as any;
+    const rawIndicators =
+      rawEvaluation && typeof rawEvaluation.indicators === 'object' ? rawEvaluation.indicators : {};
+    const configuredIndicators: SustainabilityIndicator[] = Array.isArray(criterionConfig?.indicators)
+      ? criterionConfig.indicators
+      : [];
+
+    const indicators: Record<string, IndicatorEvaluation> = {};
+
+    for (const indicator of configuredIndicators) {
+      const indicatorId = (indicator.id || '').toLowerCase();
+      const rawIndicator = rawIndicators[indicatorId];
+      if (!indicatorId || !rawIndicator) continue;
+
+      const rawStatus = String(rawIndicator.status || '').toLowerCase() as IndicatorStatus;
+
+      indicators[indicator.id as string] = {
+        status: INDICATOR_STATUSES.includes(rawStatus) ? rawStatus : 'unknown',
+        evidence: toEvidenceRecords(rawIndicator.evidence, sources, indicator.id as string),
+      };
+    }
+
+    facts[criterionName] = {
+      evidence: Object.values(indicators).flatMap((indicator) => indicator.evidence),
+      indicators,
+    } as CriterionEvaluation;
+  }
+
   console.log('✅ [GROQ] Facts extracted:', Object.keys(rawFacts));
   console.log('[FACT-EXTRACTOR] Facts normalizados:', Object.keys(facts));
 
@@ -170,18 +271,33 @@ SUSTAINABILITY SCORE: ${finalScore}/100
 
 SCORE BREAKDOWN:
 ${Object.entries(breakdown)
-  .map(([criterion, data]: [string, any]) => `- ${criterion}: ${data.score}/100 (weight: ${data.weight})`)
+  .map(([criterion, data]: [string, any]) =>
+    data.score === null
+      ? `- ${criterion}: unknown - no evidence found (weight: ${data.weight})`
+      : `- ${criterion}: ${data.score}/100 (weight: ${data.weight}, ${data.coverage}% of indicators documented)`,
+  )
   .join('\n')}
 
+TARGETS NOT MET:
+${Object.entries(breakdown)
+  .flatMap(([criterion, data]: [string, any]) =>
+    (data.indicators || [])
+      .filter((indicator: any) => indicator.status === 'unmet')
+      .map((indicator: any) => `- ${criterion}: ${indicator.target}`),
+  )
+  .join('\n') || '- None identified'}
+
 EVIDENCE:
 ${Object.entries(facts)
   .filter(([key]) => key !== 'certifications' && key !== 'origin')
   .map(([criterion, data]: [string, any]) => `
 ${criterion}:
-${data.evidence?.map((e: string) => `  - ${e}`).join('\n') || '  - No evidence found'}
+${data.evidence?.map((e: EvidenceRecord) => `  - ${e.text}`).join('\n') || '  - No evidence found'}
 `)
   .join('\n')}
 
+Criteria marked "unknown" lack evidence: say the information is missing, do NOT describe them as poor performance.
+
 Generate a JSON response with:
 1. summary: A 2-3 sentence overview of the product's sustainability
 2. strengths: Array of 2-4 positive sustainability aspects
@@ -198,9 +314,9 @@ Return ONLY valid JSON:
 
   console.log('🤖 [GROQ] Generating descriptive texts...');
 
-  const completion = await groq.chat.completions.create({
+  const completion = await getGroq().chat.completions.create({
     messages: [{ role: 'user', content: prompt }],
-    model: 'llama-3.3-70b-versatile',
+    model: FACT_EXTRACTION_MODEL,
     temperature: 0.3,
     response_format: { type: 'json_object' },
   });
@@ -0,0 +1,70 @@
+// services/fixtures.ts
+import fs from 'fs';
+import path from 'path';
+import config from '../config';
+import { hashContent, stableStringify } from './hash';
+
+export type FixtureKind = 'search' | 'groq';
+
+interface FixtureFile<T> {
+  kind: FixtureKind;
+  hash: string;
+  request: unknown;
+  response: T;
+  recordedAt: string;
+}
+
+export function hashFixtureRequest(kind: FixtureKind, request: unknown): string {
+  return hashContent({ kind, request });
+}
+
+export function getFixturePath(kind: FixtureKind, hash: string, dir: string = config.fixtures.dir): string {
+  return path.resolve(dir, kind, `${hash}.json`);
+}
+
+/**
+ * Executa a chamada real conforme config.fixtures.mode:
+ * - off: chama direto
+ * - record: chama e grava a resposta em <dir>/<kind>/<hash>.json
+ * - replay: devolve a resposta gravada, sem rede (erro se não existir)
+ */
+export async function withFixture<T>(
+  kind: FixtureKind,
+  request: unknown,
+  live: () => Promise<T>,
+): Promise<T> {
+  const { mode, dir } = config.fixtures;
+  if (mode === 'off') {
+    return live();
+  }
+
+  const hash = hashFixtureRequest(kind, request);
+  const fixturePath = getFixturePath(kind, hash, dir);
+
+  if (mode === 'replay') {
+    if (!fs.existsSync(fixturePath)) {
+      throw new Error(
+        `[FIXTURES] No ${kind} fixture for request ${hash} (${fixturePath}). Record it with FIXTURE_MODE=record.`,
+      );
+    }
+
+    const fixture = JSON.parse(fs.readFileSync(fixturePath, 'utf-8')) as FixtureFile<T>;
+    console.log(`📼 [FIXTURES] Replaying ${kind} ${hash}`);
+    return fixture.response;
+  }
+
+  const response = await live();
+
+  const fixture: FixtureFile<T> = {
+    kind,
+    hash,
+    request: JSON.parse(stableStringify(request)),
+    response,
+    recordedAt: new Date().toISOString(),
+  };
+  fs.mkdirSync(path.dirname(fixturePath), { recursive: true });
+  fs.writeFileSync(fixturePath, JSON.stringify(fixture, null, 2));
+  console.log(`📼 [FIXTURES] Recorded ${kind} ${hash}`);
+
+  return response;
+}
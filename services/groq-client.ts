@@ -1,6 +1,7 @@
 // services/groq-client.ts
 import Groq from 'groq-sdk';
 import config from '@/config';
+import { createGroqClient, getGroqApiKey } from './groq-factory';
 import type { 
   AnalysisOptions, 
   AnalysisResponse, 
@@ -16,8 +17,8 @@ class GroqClient {
   private defaultModel: string;
 
   constructor() {
-    this.apiKey = config.groq.apiKey;
-    this.client = new Groq({ apiKey: this.apiKey });
+    this.apiKey = getGroqApiKey();
+    this.client = createGroqClient(this.apiKey);
     this.defaultModel = config.groq.defaultModel;
   }
 
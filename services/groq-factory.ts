@@ -0,0 +1,30 @@
+// services/groq-factory.ts
+import Groq from 'groq-sdk';
+import config from '../config';
+import { withFixture } from './fixtures';
+
+// Em replay nenhuma requisição sai, mas o SDK exige uma chave na construção
+const REPLAY_API_KEY = 'fixture-replay';
+
+/**
+ * Chave do Groq; em modo replay devolve uma chave fictícia para que os
+ * caminhos com LLM rodem a partir das fixtures, sem credenciais.
+ */
+export function getGroqApiKey(): string | undefined {
+  return config.groq.apiKey || (config.fixtures.mode === 'replay' ? REPLAY_API_KEY : undefined);
+}
+
+/**
+ * Cria o cliente Groq com `chat.completions.create` passando pelas
+ * fixtures (record/replay) conforme config.fixtures.mode.
+ */
+export function createGroqClient(apiKey: string | undefined = getGroqApiKey()): Groq {
+  const client = new Groq({ apiKey });
+  const completions = client.chat.completions;
+  const create = completions.create.bind(completions);
+
+  completions.create = ((body: Parameters<typeof create>[0], options?: Parameters<typeof create>[1]) =>
+    withFixture('groq', body, () => create(body, options))) as typeof completions.create;
+
+  return client;
+}
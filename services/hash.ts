@@ -0,0 +1,29 @@
+// services/hash.ts
+import { createHash } from 'crypto';
+
+/**
+ * JSON com chaves ordenadas: o mesmo conteúdo gera sempre o mesmo texto,
+ * independente da ordem em que o objeto foi montado.
+ */
+export function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value as Record<string, unknown>)
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${stableStringify((value as Record<string, unknown>)[key])}`)
+      .join(',')}}`;
+  }
+
+  return JSON.stringify(value);
+}
+
+/**
+ * Hash sha256 (hex, truncado) do conteúdo em forma estável.
+ */
+export function hashContent(value: unknown, length: number = 32): string {
+  return createHash('sha256').update(stableStringify(value)).digest('hex').slice(0, length);
+}
@@ -0,0 +1,287 @@
+// services/keyword-matching.ts
+
+export type KeywordMatchType = 'exact' | 'stem' | 'ngram' | 'fuzzy';
+
+export type StemmingLanguage = 'en' | 'pt' | 'es';
+
+/**
+ * Como as palavras-chave casam com o texto normalizado. Cada tipo de
+ * casamento tem seu peso nos pontos (0 desativa o tipo).
+ */
+export interface KeywordMatchingConfig {
+  match_weights: Record<KeywordMatchType, number>;
+  /**
+   * Idiomas com regras de plural no casamento por radical. Cada texto usa
+   * só as regras do seu idioma; o primeiro vale quando ele não é conhecido.
+   */
+  stemming_languages: StemmingLanguage[];
+  fuzzy: {
+    /** Tamanho mínimo da palavra-chave para aceitar erros de digitação */
+    min_length: number;
+    /** Distância de edição máxima, relativa ao tamanho da palavra-chave */
+    max_distance_ratio: number;
+  };
+}
+
+/** Palavra-chave (ou sinônimo) já normalizada e quebrada em tokens */
+export interface KeywordVariant {
+  keyword: string;
+  tokens: string[];
+}
+
+export interface TokenMatch {
+  keyword: string;
+  /** Trecho do texto que casou */
+  text: string;
+  type: KeywordMatchType;
+  count: number;
+}
+
+/**
+ * Sem keyword_matching na KB: só exato e radical, o equivalente ao
+ * antigo casamento de plurais com/sem "s".
+ */
+export const DEFAULT_KEYWORD_MATCHING: KeywordMatchingConfig = {
+  match_weights: { exact: 1, stem: 1, ngram: 0, fuzzy: 0 },
+  stemming_languages: ['en', 'pt', 'es'],
+  fuzzy: { min_length: 6, max_distance_ratio: 0.15 },
+};
+
+/** Ordem de prioridade: um trecho do texto conta para um só tipo */
+const MATCH_ORDER: KeywordMatchType[] = ['exact', 'stem', 'ngram', 'fuzzy'];
+
+const MIN_STEM_LENGTH = 4;
+const MIN_NGRAM_LENGTH = 4;
+const MAX_NGRAM_TOKENS = 3;
+
+// Regras de plural por idioma (texto sem acentos): vale a primeira que casar
+const STEM_RULES: Record<StemmingLanguage, Array<[RegExp, string]>> = {
+  en: [
+    [/ies$/, 'y'],
+    [/(ss|x|ch|sh|z)es$/, '$1'],
+    [/([^su])s$/, '$1'],
+  ],
+  pt: [
+    [/[oa]es$/, 'ao'],
+    [/ais$/, 'al'],
+    [/eis$/, 'el'],
+    [/ois$/, 'ol'],
+    [/uis$/, 'ul'],
+    [/ns$/, 'm'],
+    [/([rsz])es$/, '$1'],
+    [/([^s])s$/, '$1'],
+  ],
+  es: [
+    [/ces$/, 'z'],
+    [/([^aeiou])es$/, '$1'],
+    [/([aeiou])s$/, '$1'],
+  ],
+};
+
+// Indícios de idioma no texto original (com acentos): palavras funcionais,
+// terminações típicas e letras próprias de cada língua
+const LANGUAGE_HINTS: Record<StemmingLanguage, { words: Set<string>; suffix: RegExp; letters: RegExp }> = {
+  en: {
+    words: new Set(['the', 'and', 'with', 'for', 'of', 'to', 'in', 'by', 'from', 'without']),
+    suffix: /(?:ing|tion|tions|ness|less|ful)$/,
+    letters: /(?!)/g,
+  },
+  pt: {
+    words: new Set(['de', 'da', 'do', 'das', 'dos', 'com', 'sem', 'para', 'e', 'em', 'na', 'no', 'um', 'uma']),
+    suffix: /(?:ção|ções|ões|nhas?|nhos?|lhas?|lhos?)$/,
+    letters: /[ãõçâêô]/g,
+  },
+  es: {
+    words: new Set(['de', 'del', 'la', 'el', 'los', 'las', 'con', 'sin', 'para', 'y', 'en', 'un', 'una']),
+    suffix: /(?:ción|ciones|illas?|illos?)$/,
+    letters: /[ñ¿¡]/g,
+  },
+};
+
+/**
+ * Idioma do texto entre os configurados, pelos indícios de LANGUAGE_HINTS.
+ * Devolve null sem indícios ou com empate.
+ */
+export function detectLanguage(text: string, languages: StemmingLanguage[]): StemmingLanguage | null {
+  const lower = (text || '').toLowerCase();
+  const words = lower.split(/[^\p{L}\d]+/u).filter(Boolean);
+
+  const scores = languages.map((language) => {
+    const hints = LANGUAGE_HINTS[language];
+    const wordHits = words.filter((word) => hints.words.has(word) || hints.suffix.test(word)).length;
+    return { language, score: wordHits + (lower.match(hints.letters) || []).length };
+  });
+
+  scores.sort((a, b) => b.score - a.score);
+  const [best, runnerUp] = scores;
+  if (!best || best.score === 0 || (runnerUp && runnerUp.score === best.score)) return null;
+  return best.language;
+}
+
+/** Código de idioma do pedido (pt-BR, es_MX, en) → idioma com regras de radical */
+export function toStemmingLanguage(value?: string | null): StemmingLanguage | undefined {
+  const code = (value || '').trim().toLowerCase().split(/[-_]/)[0];
+  return Object.prototype.hasOwnProperty.call(STEM_RULES, code) ? (code as StemmingLanguage) : undefined;
+}
+
+/**
+ * Idioma cujas regras valem para o texto: o informado, se estiver entre
+ * os configurados, senão o primeiro da configuração (null: sem radical).
+ */
+function resolveStemmingLanguage(
+  language: StemmingLanguage | null | undefined,
+  settings: KeywordMatchingConfig,
+): StemmingLanguage | null {
+  if (language && settings.stemming_languages.includes(language)) return language;
+  return settings.stemming_languages[0] ?? null;
+}
+
+export function stemToken(token: string, language: StemmingLanguage): string {
+  if (token.length < MIN_STEM_LENGTH) return token;
+
+  for (const [pattern, replacement] of STEM_RULES[language]) {
+    if (pattern.test(token)) {
+      return token.replace(pattern, replacement);
+    }
+  }
+
+  return token;
+}
+
+function sameStem(a: string, b: string, language: StemmingLanguage | null): boolean {
+  return a === b || (language !== null && stemToken(a, language) === stemToken(b, language));
+}
+
+/**
+ * Distância de Levenshtein; para de calcular (devolve max + 1) quando
+ * uma linha inteira já passou de `max`.
+ */
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      rowMin = Math.min(rowMin, current[j]);
+    }
+
+    if (rowMin > max) return max + 1;
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Todos os tokens das palavras-chave da KB e seus radicais: um token do
+ * texto que já é vocabulário conhecido não vira erro de digitação de outro.
+ */
+export function buildKeywordVocabulary(
+  variants: KeywordVariant[],
+  settings: KeywordMatchingConfig = DEFAULT_KEYWORD_MATCHING,
+): Set<string> {
+  const vocabulary = new Set<string>();
+
+  for (const variant of variants) {
+    for (const token of variant.tokens) {
+      vocabulary.add(token);
+      settings.stemming_languages.forEach((language) => vocabulary.add(stemToken(token, language)));
+    }
+  }
+
+  return vocabulary;
+}
+
+function isKnownWord(token: string, vocabulary: Set<string>, language: StemmingLanguage | null): boolean {
+  return vocabulary.has(token) || (language !== null && vocabulary.has(stemToken(token, language)));
+}
+
+function spanLengths(type: KeywordMatchType, keywordLength: number): number[] {
+  if (type !== 'ngram') return [keywordLength];
+
+  return Array.from({ length: MAX_NGRAM_TOKENS }, (_, index) => index + 1).filter(
+    (length) => length !== keywordLength,
+  );
+}
+
+function spanMatches(
+  type: KeywordMatchType,
+  span: string[],
+  keyword: string[],
+  settings: KeywordMatchingConfig,
+  vocabulary: Set<string>,
+  language: StemmingLanguage | null,
+): boolean {
+  switch (type) {
+    case 'exact':
+      return span.every((token, index) => token === keyword[index]);
+
+    case 'stem':
+      return span.every((token, index) => sameStem(token, keyword[index], language));
+
+    case 'ngram': {
+      // "power bank" ↔ "powerbank", "smartwatch" ↔ "smart watch"
+      const joined = keyword.join('');
+      return joined.length >= MIN_NGRAM_LENGTH && span.join('') === joined;
+    }
+
+    case 'fuzzy': {
+      const target = keyword.join(' ');
+      if (target.length < settings.fuzzy.min_length) return false;
+      if (span.every((token) => isKnownWord(token, vocabulary, language))) return false;
+
+      const maxDistance = Math.floor(target.length * settings.fuzzy.max_distance_ratio);
+      const distance = editDistance(span.join(' '), target, maxDistance);
+      return distance > 0 && distance <= maxDistance;
+    }
+  }
+}
+
+/**
+ * Casa as variantes de palavras-chave com os tokens do texto, tipo por
+ * tipo na ordem de MATCH_ORDER. Casamentos exatos podem se sobrepor
+ * (como no antigo regex por variante); os demais só usam tokens que
+ * ainda não casaram, para um erro de digitação não somar duas vezes.
+ * O radical usa só as regras de `language`, o idioma do texto.
+ */
+export function matchKeywords(
+  textTokens: string[],
+  variants: KeywordVariant[],
+  settings: KeywordMatchingConfig = DEFAULT_KEYWORD_MATCHING,
+  vocabulary: Set<string> = new Set(),
+  language?: StemmingLanguage | null,
+): TokenMatch[] {
+  const stemLanguage = resolveStemmingLanguage(language, settings);
+  const covered = new Array<boolean>(textTokens.length).fill(false);
+  const found = new Map<string, TokenMatch>();
+
+  for (const type of MATCH_ORDER) {
+    if (!(settings.match_weights[type] > 0)) continue;
+
+    for (const variant of variants) {
+      for (const length of spanLengths(type, variant.tokens.length)) {
+        for (let start = 0; start + length <= textTokens.length; start++) {
+          if (type !== 'exact' && covered.slice(start, start + length).some(Boolean)) continue;
+
+          const span = textTokens.slice(start, start + length);
+          if (!spanMatches(type, span, variant.tokens, settings, vocabulary, stemLanguage)) continue;
+
+          const text = span.join(' ');
+          const key = `${type}|${variant.keyword}|${text}`;
+          const match = found.get(key) || { keyword: variant.keyword, text, type, count: 0 };
+          match.count++;
+          found.set(key, match);
+          covered.fill(true, start, start + length);
+        }
+      }
+    }
+  }
+
+  return Array.from(found.values());
+}
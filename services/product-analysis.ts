@@ -0,0 +1,2542 @@
+// services/product-analysis.ts
+
+import { waitUntil } from "@vercel/functions";
+import alternativesData from "../data/alternatives.json";
+import config from "../config";
+import type { CertificationRegistry } from "../types";
+import webSearchClient from "./web-search-client";
+import { createGroqClient, getGroqApiKey } from "./groq-factory";
+import {
+  extractProductFacts,
+  FACT_EXTRACTION_MODEL,
+  generateDescriptiveTexts,
+} from "./fact-extractor";
+import {
+  calculateSustainabilityScore,
+  ProductFacts,
+  ScoreBreakdown,
+  SustainabilityScore,
+} from "./scoring-engine";
+import { getCache } from "./cache";
+import { getAnalysisCacheKey, getRefreshLockKey, getRequestFingerprintKey } from "./cache/keys";
+import { checkKnowledgeBaseStamp, getKnowledgeBaseStamp } from "./cache/stamp";
+import { getCacheFreshness, getCacheTtl } from "./cache/ttl";
+import { withStageCache } from "./cache/stages";
+import { singleFlight } from "./cache/single-flight";
+import type { AnalysisStage } from "./analysis-jobs";
+import { recordAnalysis } from "./analysis-history";
+import {
+  categorizeProduct,
+  CategorizationInput,
+  ScoringConfig,
+  SecondaryCategory,
+  TextProcessingConfig,
+  translateProductName,
+} from "./categorization";
+import { withMergedCategory } from "./category-merge";
+
+interface CachedAnalysisResult {
+  analysis: GroqAnalysisResult;
+  rescored: boolean;
+  // Passou do soft TTL: servida assim mesmo e recalculada em background
+  stale: boolean;
+}
+
+interface CategoryAssignment {
+  category: string;
+  secondaryCategories: SecondaryCategory[];
+  subcategoryPath: string[];
+}
+
+// Acompanhamento da análise: os jobs usam só as etapas; o streaming (SSE)
+// também recebe os resultados parciais assim que ficam prontos
+export interface AnalysisProgressListener {
+  onStage?: (stage: AnalysisStage) => unknown;
+  onCategory?: (category: string) => unknown;
+  onScore?: (originalProduct: OriginalProduct) => unknown;
+  onAlternative?: (alternative: Alternative, index: number) => unknown;
+}
+
+async function getCachedAnalysis(
+  productName: string,
+  userCountry: string
+): Promise<CachedAnalysisResult | null> {
+  try {
+    const key = getAnalysisCacheKey(productName, userCountry);
+    const cache = getCache();
+    const cached = await cache.get<GroqAnalysisResult>(key);
+
+    if (cached) {
+      const category = cached.originalProduct?.category;
+      const freshness = getCacheFreshness(cached.cachedAt, category);
+
+      if (freshness === "expired") {
+        console.log(`⌛ [CACHE] Hard TTL expired: ${key.substring(0, 50)}`);
+        await cache.del(key);
+        return null;
+      }
+
+      const stale = freshness === "stale";
+      const scoringCategories = getScoringCategories(
+        category,
+        cached.originalProduct?.secondary_categories
+      );
+      const stampStatus = checkKnowledgeBaseStamp(cached, category, {
+        version: alternativesConfig.version,
+        categories: scoringCategories,
+        certification_registry: alternativesConfig.certification_registry,
+      });
+
+      if (stampStatus === "fresh") {
+        console.log(
+          `✅ [CACHE] ${cache.name} HIT${stale ? " (stale)" : ""}: ${key.substring(0, 50)}`
+        );
+        return { analysis: cached, rescored: false, stale };
+      }
+
+      // ✅ KB mudou: re-pontua a partir dos fatos gravados (sem rede);
+      // sem fatos ou categoria removida, descarta e refaz a análise
+      if (cached.facts && alternativesConfig.categories[category]) {
+        console.log(`♻️ [CACHE] ${stampStatus} entry, re-scoring: ${key.substring(0, 50)}`);
+        const score = calculateSustainabilityScore(
+          cached.facts,
+          category,
+          scoringCategories
+        );
+        const rescored: GroqAnalysisResult = {
+          ...cached,
+          originalProduct: applyScoreToOriginalProduct(cached.originalProduct, score),
+        };
+        await setCachedAnalysis(productName, userCountry, rescored);
+        await recordHistory(productName, userCountry, rescored, "rescore");
+        return { analysis: rescored, rescored: true, stale };
+      }
+
+      console.log(`🗑️ [CACHE] ${stampStatus} entry discarded: ${key.substring(0, 50)}`);
+      await cache.del(key);
+      return null;
+    }
+
+    console.log(`📭 [CACHE] ${cache.name} MISS: ${key.substring(0, 50)}`);
+    return null;
+  } catch (error) {
+    console.error("❌ [CACHE] Cache read error:", error);
+    return null;
+  }
+}
+
+/**
+ * Categorias usadas no score: a primária com os critérios mesclados das
+ * secundárias (produtos multi-categoria) ou o alternatives.json como está.
+ */
+function getScoringCategories(
+  category: string,
+  secondaryCategories?: SecondaryCategory[]
+): Record<string, CategoryData> {
+  return withMergedCategory(category, secondaryCategories, alternativesConfig.categories);
+}
+
+// Carimbo sobre os critérios mesclados: mudar uma secundária também invalida
+function getOriginalProductStamp(original: OriginalProduct) {
+  return getKnowledgeBaseStamp(original.category, {
+    version: alternativesConfig.version,
+    categories: getScoringCategories(original.category, original.secondary_categories),
+    certification_registry: alternativesConfig.certification_registry,
+  });
+}
+
+async function setCachedAnalysis(
+  productName: string,
+  userCountry: string,
+  result: GroqAnalysisResult
+): Promise<void> {
+  try {
+    const key = getAnalysisCacheKey(productName, userCountry);
+    const cache = getCache();
+    const category = result.originalProduct.category;
+    const stamp = getOriginalProductStamp(result.originalProduct);
+    // Re-pontuação mantém o cachedAt original: os dados não ficaram mais novos
+    const cachedAt = result.cachedAt || Date.now();
+    const { softTtlSeconds, hardTtlSeconds } = getCacheTtl(category);
+    const remainingSeconds = Math.max(
+      1,
+      Math.ceil(hardTtlSeconds - (Date.now() - cachedAt) / 1000)
+    );
+
+    await cache.set(key, { ...result, ...stamp, cachedAt }, remainingSeconds);
+    console.log(
+      `💾 [CACHE] ${cache.name} SAVED: ${key.substring(0, 50)} (soft TTL: ${softTtlSeconds}s, hard TTL: ${remainingSeconds}s)`
+    );
+  } catch (error) {
+    console.error("❌ [CACHE] Cache save error:", error);
+  }
+}
+
+/**
+ * Grava o score no histórico durável do produto (tendência ao longo do
+ * tempo). Falha no histórico nunca derruba a análise.
+ */
+async function recordHistory(
+  productName: string,
+  userCountry: string,
+  result: GroqAnalysisResult,
+  source: "analysis" | "rescore"
+): Promise<void> {
+  try {
+    const original = result.originalProduct;
+    const stamp = getOriginalProductStamp(original);
+
+    await recordAnalysis({
+      productName,
+      country: userCountry,
+      category: original.category,
+      score: original.sustainability_score,
+      classification: original.classification || null,
+      confidenceBand: original.confidence_band || null,
+      dataCoverage: original.data_coverage ?? null,
+      breakdown: original.breakdown,
+      kbVersion: stamp.kbVersion,
+      categoryHash: stamp.categoryHash,
+      registryHash: stamp.registryHash,
+      model: FACT_EXTRACTION_MODEL,
+      source,
+    });
+  } catch (error) {
+    console.error("❌ [HISTORY] Error recording analysis:", error);
+  }
+}
+
+/**
+ * Recalcula a análise sem segurar a resposta. waitUntil mantém a função
+ * viva na Vercel até o refresh terminar; o lock no cache (SET NX) garante
+ * um refresh por chave entre instâncias. O lock não é liberado: expira com
+ * o TTL do single-flight, e falhas mantêm a entrada stale até o hard TTL.
+ */
+export function refreshInBackground(key: string, refresh: () => Promise<unknown>): void {
+  const task = (async () => {
+    const acquired = await getCache().setIfAbsent(
+      getRefreshLockKey(key),
+      { startedAt: Date.now() },
+      config.cache.singleFlight.lockTtlSeconds
+    );
+    if (!acquired) {
+      console.log(`⏳ [CACHE] Refresh already running: ${key.substring(0, 50)}`);
+      return;
+    }
+
+    console.log(`🔄 [CACHE] Background refresh started: ${key.substring(0, 50)}`);
+    await refresh();
+    console.log(`✅ [CACHE] Background refresh done: ${key.substring(0, 50)}`);
+  })().catch((error) => console.error("❌ [CACHE] Background refresh failed:", error));
+
+  waitUntil(task);
+}
+
+/**
+ * Map ISO country code to language/locale
+ * @param {string} countryCode - ISO 3166-1 alpha-2 country code
+ * @returns {string} - Language locale (e.g., 'pt-BR', 'en-US')
+ */
+function getLanguageFromCountry(countryCode: string): string {
+  // Return ISO locale format for reference only
+  // Groq will detect actual language from product name
+  return `${countryCode.toLowerCase()}-${countryCode}`;
+}
+
+/**
+ * Get localized congratulations message for sustainable products using Groq
+ * @param {string} productName - Product name to detect language
+ * @returns {Promise<string>} - Localized message
+ */
+async function getSustainableProductMessage(productName: string): Promise<string> {
+  const groqApiKey = getGroqApiKey();
+  if (!groqApiKey) {
+    // Fallback if no API key
+    return "Congratulations! You've already chosen a sustainable product! 🌱";
+  }
+
+  try {
+    const groq = createGroqClient(groqApiKey);
+    
+    const prompt = `Detect the language of this product name and generate a congratulations message in that EXACT language:
+
+Product name: "${productName}"
+
+Generate a short, friendly congratulations message saying the user has already chosen a sustainable product. Include the 🌱 emoji at the end.
+
+CRITICAL RULES:
+1. Detect the language from the product name automatically
+2. Respond in the SAME language as the product name
+3. Keep it short (one sentence, max 15 words)
+4. Be enthusiastic and positive
+5. Include 🌱 emoji at the end
+6. Return ONLY the message, nothing else
+
+Examples:
+- If product is in Portuguese: "Parabéns! Você já escolheu um produto sustentável! 🌱"
+- If product is in Japanese: "おめでとうございます！すでに持続可能な製品を選択しています！🌱"
+- If product is in German: "Glückwunsch! Sie haben bereits ein nachhaltiges Produkt gewählt! 🌱"
+- If product is in Spanish: "¡Felicitaciones! ¡Ya elegiste un producto sostenible! 🌱"
+
+Now generate the message:`;
+
+    const completion = await groq.chat.completions.create({
+      messages: [
+        {
+          role: "system",
+          content: "You are a language expert. Detect language and respond in that language. Return only the congratulations message, nothing else.",
+        },
+        { role: "user", content: prompt },
+      ],
+      model: config.groq.defaultModel,
+      temperature: 0.3,
+      max_tokens: 50,
+    });
+
+    const message = completion.choices[0]?.message?.content?.trim();
+    
+    if (message && message.length > 0 && message.length < 200) {
+      console.log(`💬 [MESSAGE] Generated localized message: ${message}`);
+      return message;
+    }
+
+    // Fallback
+    return "Congratulations! You've already chosen a sustainable product! 🌱";
+  } catch (error) {
+    console.error("❌ [MESSAGE] Error generating message:", error);
+    return "Congratulations! You've already chosen a sustainable product! 🌱";
+  }
+}
+
+// Cross-validate country using multiple signals
+function validateAndCorrectCountry(
+  userCountry: string,
+  pageUrl: string | undefined,
+  productName: string
+): string {
+  console.log("🔍 [VALIDATE] Cross-validating country...");
+  console.log("📍 [VALIDATE] Input:", {
+    userCountry,
+    pageUrl: pageUrl || "N/A",
+    productName: productName.substring(0, 50),
+  });
+
+  const signals: {
+    source: string;
+    country: string;
+    confidence: "high" | "medium" | "low";
+  }[] = [];
+
+  // SIGNAL 1: userCountry from frontend
+  signals.push({
+    source: "frontend",
+    country: userCountry,
+    confidence: "medium",
+  });
+
+  // SIGNAL 2: Domain TLD
+  const domainMatch = (pageUrl || "").match(
+    /\.(com\.br|com\.mx|es|fr|de|it|co\.uk|com\.au|ca)($|\/)/
+  );
+  if (domainMatch) {
+    const tld = domainMatch[1];
+    const tldToCountry: Record<string, string> = {
+      "com.br": "BR",
+      "com.mx": "MX",
+      es: "ES",
+      fr: "FR",
+      de: "DE",
+      it: "IT",
+      "co.uk": "GB",
+      "com.au": "AU",
+      ca: "CA",
+    };
+    const domainCountry = tldToCountry[tld];
+    if (domainCountry) {
+      signals.push({
+        source: "domain",
+        country: domainCountry,
+        confidence: "high",
+      });
+      console.log(`✅ [VALIDATE] Domain signal: ${tld} → ${domainCountry}`);
+    }
+  }
+
+  // SIGNAL 3: Product name language - REMOVED
+  // Let Groq handle language detection automatically
+  console.log("ℹ️ [VALIDATE] Language detection delegated to Groq");
+
+  console.log("📊 [VALIDATE] All signals:", signals);
+
+  // Count votes by country (weighted by confidence)
+  const votes: Record<string, number> = {};
+  signals.forEach((signal) => {
+    const weight = signal.confidence === "high" ? 2 : 1;
+    votes[signal.country] = (votes[signal.country] || 0) + weight;
+  });
+
+  console.log("🗳️ [VALIDATE] Votes:", votes);
+
+  // Get winner
+  const winner = Object.entries(votes).sort(([_, a], [__, b]) => b - a)[0];
+
+  const correctedCountry = winner[0];
+
+  if (correctedCountry !== userCountry) {
+    console.log(
+      `🔄 [VALIDATE] Country corrected: ${userCountry} → ${correctedCountry}`
+    );
+    console.log(`📊 [VALIDATE] Confidence: ${winner[1]} votes`);
+  } else {
+    console.log(`✅ [VALIDATE] Country confirmed: ${userCountry}`);
+  }
+
+  return correctedCountry;
+}
+
+/**
+ * Get preferred e-commerce sites by country
+ * @param {string} countryCode - ISO 3166-1 alpha-2 country code
+ * @returns {Array<string>} - List of local e-commerce sites
+ */
+function getLocalEcommerce(countryCode: string): string[] {
+  const ecommerceByCountry: Record<string, string[]> = {
+    BR: [
+      "Mercado Livre (mercadolivre.com.br)",
+      "Americanas (americanas.com.br)",
+      "Magazine Luiza (magazineluiza.com.br)",
+      "Amazon Brasil (amazon.com.br)",
+      "Shopee Brasil (shopee.com.br)",
+    ],
+    US: [
+      "Amazon (amazon.com)",
+      "Walmart (walmart.com)",
+      "Target (target.com)",
+      "eBay (ebay.com)",
+      "Best Buy (bestbuy.com)",
+    ],
+    GB: [
+      "Amazon UK (amazon.co.uk)",
+      "Argos (argos.co.uk)",
+      "Currys (currys.co.uk)",
+      "John Lewis (johnlewis.com)",
+    ],
+    ES: [
+      "Amazon España (amazon.es)",
+      "El Corte Inglés (elcorteingles.es)",
+      "MediaMarkt (mediamarkt.es)",
+      "Carrefour (carrefour.es)",
+    ],
+    MX: [
+      "Mercado Libre (mercadolibre.com.mx)",
+      "Amazon México (amazon.com.mx)",
+      "Liverpool (liverpool.com.mx)",
+      "Coppel (coppel.com)",
+    ],
+    AR: [
+      "Mercado Libre (mercadolibre.com.ar)",
+      "Falabella (falabella.com.ar)",
+      "Garbarino (garbarino.com)",
+    ],
+    FR: [
+      "Amazon France (amazon.fr)",
+      "Cdiscount (cdiscount.com)",
+      "Fnac (fnac.com)",
+      "Darty (darty.com)",
+    ],
+    DE: [
+      "Amazon Deutschland (amazon.de)",
+      "MediaMarkt (mediamarkt.de)",
+      "Saturn (saturn.de)",
+      "Otto (otto.de)",
+    ],
+    IT: [
+      "Amazon Italia (amazon.it)",
+      "ePRICE (eprice.it)",
+      "Unieuro (unieuro.it)",
+    ],
+    CA: [
+      "Amazon Canada (amazon.ca)",
+      "Best Buy Canada (bestbuy.ca)",
+      "Walmart Canada (walmart.ca)",
+    ],
+    AU: [
+      "Amazon Australia (amazon.com.au)",
+      "JB Hi-Fi (jbhifi.com.au)",
+      "Harvey Norman (harveynorman.com.au)",
+    ],
+    KR: [
+      "Coupang (coupang.com)",
+      "Gmarket (gmarket.co.kr)",
+      "11번가 (11st.co.kr)",
+      "Interpark (interpark.com)",
+    ],
+    JP: [
+      "Rakuten (rakuten.co.jp)",
+      "Amazon Japan (amazon.co.jp)",
+      "Mercari (mercari.com)",
+    ],
+    CN: ["Taobao (taobao.com)", "JD.com (jd.com)", "Tmall (tmall.com)"],
+    IN: [
+      "Amazon India (amazon.in)",
+      "Flipkart (flipkart.com)",
+      "Myntra (myntra.com)",
+    ],
+    RU: [
+      "Wildberries (wildberries.ru)",
+      "Ozon (ozon.ru)",
+      "Yandex Market (market.yandex.ru)",
+    ],
+  };
+
+  return (
+    ecommerceByCountry[countryCode] || [
+      `Local ${countryCode} e-commerce sites`,
+      "Amazon",
+      "eBay",
+      "Local retailers",
+    ]
+  );
+}
+
+const COUNTRY_ECOMMERCE: Record<
+  string,
+  { name: string; domains: string[]; lang: string }
+> = {
+  BR: {
+    name: "Brasil",
+    domains: ["mercadolivre.com.br", "amazon.com.br", "magazineluiza.com.br"],
+    lang: "pt",
+  },
+  JP: {
+    name: "Japan",
+    domains: ["rakuten.co.jp", "amazon.co.jp", "mercari.com"],
+    lang: "ja",
+  },
+  KR: {
+    name: "South Korea",
+    domains: ["coupang.com", "gmarket.co.kr", "11st.co.kr"],
+    lang: "ko",
+  },
+  DE: {
+    name: "Germany",
+    domains: ["amazon.de", "mediamarkt.de", "otto.de"],
+    lang: "de",
+  },
+  US: {
+    name: "United States",
+    domains: ["amazon.com", "walmart.com", "target.com"],
+    lang: "en",
+  },
+};
+
+// ===== TIPOS =====
+interface ProductInfo {
+  productName?: string;
+  product_name?: string;
+  description?: string;
+  pageUrl?: string;
+  product_url?: string;
+  selectedText?: string;
+  pageTitle?: string;
+  price?: string;
+  images?: string[];
+  userCountry?: string;
+}
+
+interface AnalysisRequest {
+  productInfo?: ProductInfo;
+  product_name?: string;
+  productName?: string;
+  product_url?: string;
+  pageUrl?: string;
+  userCountry?: string;
+  userLanguage?: string;
+  category?: string;
+  // Modo assíncrono (opt-in): responde 202 com o id do job. Os jobs ficam
+  // no cache, então sem backend compartilhado (Upstash) o modo é recusado
+  // com 503; a extensão usa o modo síncrono
+  async?: boolean;
+  callbackUrl?: string;
+}
+
+interface SustainabilityIndicator {
+  id?: string;
+  name?: string;
+  description?: string;
+  measurement?: string;
+  target?: string;
+  data_sources?: string[];
+}
+
+interface SustainabilityCriterion {
+  weight: number;
+  guidelines?: string[];
+  indicators?: SustainabilityIndicator[];
+}
+
+interface CategoryData {
+  name: string;
+  keywords: string[];
+  exclusion_keywords: string[];
+  keyword_synonyms: Record<string, string[]>;
+  sustainability_criteria: Record<string, SustainabilityCriterion>;
+  certifications: string[];
+  references: string[];
+  brazilian_brands?: string[];
+  product_types?: string[];
+}
+
+interface AlternativesConfig {
+  version: string;
+  description: string;
+  lastUpdated: string;
+  source: string;
+  common_translations: Record<string, string>;
+  incompatible_types: Record<string, string[]>;
+  categories: Record<string, CategoryData>;
+  scoring_config: ScoringConfig;
+  text_processing: TextProcessingConfig;
+  certification_registry?: CertificationRegistry;
+}
+
+interface OriginalProduct {
+  name: string;
+  category: string;
+  // Produtos multi-categoria: secundárias e a fração dos pesos de cada uma
+  secondary_categories?: SecondaryCategory[];
+  subcategory_path?: string[];
+  sustainability_score: number;
+  classification?: SustainabilityScore["classification"];
+  breakdown?: ScoreBreakdown;
+  missed_targets?: SustainabilityScore["missedTargets"];
+  data_coverage?: number;
+  confidence_band?: SustainabilityScore["confidenceBand"];
+  summary: string;
+  environmental_impact: {
+    carbon_footprint: string;
+    water_usage: string;
+    recyclability: string;
+    toxicity: string;
+  };
+  strengths: string[];
+  weaknesses: string[];
+  certifications_found: string[];
+  certification_check?: SustainabilityScore["certifications"];
+  recommendations: string[];
+}
+
+interface Alternative {
+  name: string;
+  description: string;
+  benefits: string;
+  sustainability_score: number;
+  where_to_buy: string;
+  certifications: string[];
+  product_url?: string | null;
+}
+
+interface ScoredProduct {
+  facts: ProductFacts;
+  score: SustainabilityScore;
+  texts: {
+    summary: string;
+    strengths: string[];
+    weaknesses: string[];
+    recommendations: string[];
+  };
+}
+
+interface GroqAnalysisResult {
+  originalProduct: OriginalProduct;
+  alternatives: Alternative[];
+  // Carimbo do alternatives.json usado na análise (gravado no cache)
+  kbVersion?: string;
+  categoryHash?: string | null;
+  registryHash?: string | null;
+  // Fatos extraídos: permitem re-pontuar quando a KB muda
+  facts?: ProductFacts;
+  // Momento (ms) da análise; base dos soft/hard TTLs
+  cachedAt?: number;
+}
+
+interface AnalysisResponse {
+  success: boolean;
+  productInfo?: {
+    productName: string;
+    pageUrl: string;
+    pageTitle?: string;
+    selectedText?: string;
+  };
+  category?: string;
+  originalProduct?: OriginalProduct;
+  alternatives?: Alternative[];
+  isAlreadySustainable?: boolean;  // ✅ Flag for sustainable products
+  sustainableMessage?: string;  // ✅ NEW: Localized message for sustainable products
+  timestamp?: string;
+  error?: string;
+  jobId?: string;
+  jobStatus?: string;
+  statusUrl?: string;
+  _meta?: {
+    cached: boolean;
+    tokensUsed?: number | string;
+    tokensSaved?: string;
+    cacheSize?: number;
+    duplicate?: boolean;
+    rescored?: boolean;
+    stale?: boolean;
+    cachedAt?: string;
+    kbVersion?: string;
+  };
+}
+
+// Cast seguro para o JSON
+const alternativesConfig = alternativesData as unknown as AlternativesConfig;
+
+function extractGuidelinesFromCriteria(
+  criteria: Record<string, SustainabilityCriterion>
+): string[] {
+  const guidelines: string[] = [];
+
+  for (const [, criterionData] of Object.entries(criteria)) {
+    if (criterionData.indicators && Array.isArray(criterionData.indicators)) {
+      criterionData.indicators.forEach((indicator) => {
+        if (indicator.target) {
+          guidelines.push(indicator.target);
+        }
+        if (indicator.description) {
+          guidelines.push(indicator.description);
+        }
+      });
+    } else if (
+      criterionData.guidelines &&
+      Array.isArray(criterionData.guidelines)
+    ) {
+      guidelines.push(...criterionData.guidelines);
+    }
+  }
+
+  return guidelines;
+}
+
+function formatCriteriaForPrompt(categoryData: CategoryData): string {
+  const criteria = categoryData.sustainability_criteria || {};
+  let formatted = "";
+
+  for (const [key, data] of Object.entries(criteria)) {
+    formatted += `\n${key.toUpperCase()} (weight: ${data.weight}):\n`;
+
+    if (data.indicators && Array.isArray(data.indicators)) {
+      data.indicators.forEach((indicator, i) => {
+        const indicatorLabel = indicator.name || "Indicator";
+        const indicatorTarget = indicator.target || indicator.description || "";
+        formatted += `  ${i + 1}. ${indicatorLabel}: ${indicatorTarget}\n`;
+      });
+    } else if (data.guidelines && Array.isArray(data.guidelines)) {
+      data.guidelines.forEach((g, i) => {
+        formatted += `  ${i + 1}. ${g}\n`;
+      });
+    }
+  }
+
+  return formatted;
+}
+
+// ===== DETECTAR TIPO DE PRODUTO COM IA (CORRIGIDO) =====
+async function detectProductType(
+  productName: string,
+  pageTitle: string = "",
+  categoryName: string = "",
+  onFallback: (reason: string) => void = () => {}
+): Promise<string> {
+  // ✅ CORREÇÃO 3: FALLBACK INTELIGENTE com dicionário dinâmico do JSON
+  const categories = alternativesConfig.categories;
+
+  // Buscar tipo conhecido no nome do produto
+  const safeProductName = productName || "";
+  const lowerName = safeProductName.toLowerCase();
+  const lowerTitle = (pageTitle || "").toLowerCase();
+
+  for (const [, data] of Object.entries(categories)) {
+    if (data.product_types) {
+      for (const type of data.product_types) {
+        // ✅ Skip very short/generic words (like "fio", "tv", etc.)
+        if (type.length < 4) {
+          continue;
+        }
+        
+        // Usar regex com word boundaries
+        const pattern = new RegExp(`\\b${type}s?\\b`, "i");
+        if (pattern.test(lowerName) || pattern.test(lowerTitle)) {
+          console.log(`🏷️ Type detected (keyword from json): "${type}"`);
+          return type;
+        }
+      }
+    }
+  }
+
+  const groqApiKey = getGroqApiKey();
+
+  // Se não achou com keywords e não tem API key, usar fallback básico
+  if (!groqApiKey) {
+    const words = safeProductName.split(/\s+/).filter((w) => w.length > 2);
+    const fallback = words.slice(-2).join(" ");
+    console.log(`🏷️ Type (basic fallback): "${fallback}"`);
+    onFallback("no API key");
+    return fallback;
+  }
+
+  try {
+    const groq = createGroqClient(groqApiKey);
+
+    const prompt = `Extract the SPECIFIC and DETAILED product type from: "${productName}".
+
+CRITICAL INSTRUCTIONS:
+- Be EXTREMELY SPECIFIC, not generic
+- Include the product's primary function/purpose
+- For software, specify what kind of software (photo editing, video editing, office, etc.)
+- For electronics, specify the device type (smartphone, laptop, tablet, etc.)
+- For clothing, specify the item type (sneakers, jacket, t-shirt, etc.)
+
+EXAMPLES:
+- "Adobe Photoshop 2024" → "photo editing software"
+- "Microsoft Office 365" → "office productivity software"
+- "iPhone 15 Pro" → "smartphone"
+- "Nike Air Max" → "athletic sneakers"
+- "IKEA POÄNG Chair" → "armchair furniture"
+- "Pantene Shampoo" → "hair care shampoo"
+- "Tesla Model 3" → "electric sedan vehicle"
+
+Return ONLY the specific product type in English, nothing else.`;
+
+    const completion = await groq.chat.completions.create({
+      messages: [
+        {
+          role: "system",
+          content: "Extract product type. Return 1-2 words only.",
+        },
+        { role: "user", content: prompt },
+      ],
+      model: config.groq.defaultModel,
+      temperature: config.groq.operations.typeDetection.temperature,
+      max_tokens: config.groq.operations.typeDetection.maxTokens,
+    });
+
+    const rawType = completion.choices[0]?.message?.content?.trim();
+    const type = rawType ? rawType.toLowerCase() : "";
+
+    if (type && type.length > 0 && type.length < 50) {
+      console.log(`🏷️ Type (AI): "${type}"`);
+      return type;
+    }
+
+    throw new Error("Invalid type from AI");
+  } catch (error) {
+    console.error("⚠️ Type detection error:", error);
+    // Fallback: últimas palavras do nome
+    const words = safeProductName.split(/\s+/).filter((w) => w.length > 2);
+    const fallback = words.slice(-2).join(" ");
+    console.log(`🏷️ Type (error fallback): "${fallback}"`);
+    onFallback("AI type detection error");
+    return fallback;
+  }
+}
+
+/**
+ * Validates if a URL is a real e-commerce product URL (not a search engine)
+ * Generic validation without hardcoded domain lists - works for any country/language
+ * @param {string | null | undefined} url - URL to validate
+ * @returns {boolean} - true if valid e-commerce URL, false if search engine or invalid
+ */
+function isValidEcommerceUrl(url: string | null | undefined): boolean {
+  if (!url) return true; // null/undefined is valid (frontend will handle)
+  
+  try {
+    const parsed = new URL(url);
+    const hostname = parsed.hostname.toLowerCase();
+    const pathname = parsed.pathname.toLowerCase();
+    const searchParams = parsed.search.toLowerCase();
+    
+    // Pattern 1: Common search engine domains (generic patterns)
+    const searchEnginePatterns = [
+      'google',      // google.com, google.de, google.co.uk, etc.
+      'bing',        // bing.com
+      'yahoo',       // yahoo.com, yahoo.co.jp, etc.
+      'duckduckgo',  // duckduckgo.com
+      'baidu',       // baidu.com (China)
+      'yandex',      // yandex.ru (Russia)
+      'naver',       // naver.com (Korea)
+      'ask',         // ask.com
+      'aol',         // aol.com
+      'ecosia',      // ecosia.org
+    ];
+    
+    // Check if hostname contains any search engine pattern
+    if (searchEnginePatterns.some(pattern => hostname.includes(pattern))) {
+      console.log(`⚠️ [URL-VALIDATION] Detected search engine in hostname: ${hostname}`);
+      return false;
+    }
+    
+    // Pattern 2: Search path patterns (universal)
+    const searchPathPatterns = [
+      '/search',     // /search, /search/, /search?q=
+      '/s/',         // /s/query
+      '/query',      // /query
+      '/find',       // /find
+      '/results',    // /results
+    ];
+    
+    if (searchPathPatterns.some(pattern => pathname.includes(pattern))) {
+      console.log(`⚠️ [URL-VALIDATION] Detected search path pattern: ${pathname}`);
+      return false;
+    }
+    
+    // Pattern 3: Search query parameters (universal)
+    const searchQueryPatterns = [
+      'q=',          // ?q=query (most common)
+      'query=',      // ?query=
+      'search=',     // ?search=
+      'keyword=',    // ?keyword=
+      's=',          // ?s=query
+    ];
+    
+    if (searchQueryPatterns.some(pattern => searchParams.includes(pattern))) {
+      console.log(`⚠️ [URL-VALIDATION] Detected search query parameter: ${searchParams}`);
+      return false;
+    }
+    
+    // Pattern 4: URL shorteners and redirects (often used in search results)
+    const redirectPatterns = [
+      'bit.ly',
+      'tinyurl',
+      'goo.gl',
+      't.co',
+      'ow.ly',
+    ];
+    
+    if (redirectPatterns.some(pattern => hostname.includes(pattern))) {
+      console.log(`⚠️ [URL-VALIDATION] Detected URL shortener: ${hostname}`);
+      return false;
+    }
+    
+    // ✅ URL passed all validation checks
+    return true;
+  } catch (error) {
+    // Invalid URL format
+    console.log(`⚠️ [URL-VALIDATION] Invalid URL format: ${url}`);
+    return false;
+  }
+}
+
+/**
+ * Prioritizes domain diversity in alternatives - reorders to show diverse domains first
+ * Does NOT remove products, just reorders to maximize diversity in top results
+ * Generic implementation that works with any e-commerce domain
+ * @param {Alternative[]} alternatives - List of alternative products
+ * @returns {Alternative[]} - Reordered list with diverse domains prioritized
+ */
+function enforceDomainDiversity(alternatives: Alternative[]): Alternative[] {
+  if (!alternatives || alternatives.length === 0) {
+    return alternatives;
+  }
+
+  const domainGroups: Record<string, Alternative[]> = {};
+  const nullUrlAlternatives: Alternative[] = [];
+
+  console.log(`🔍 [DIVERSITY] Reordering ${alternatives.length} alternatives for diversity`);
+
+  // Group alternatives by domain
+  for (const alt of alternatives) {
+    if (!alt.product_url) {
+      nullUrlAlternatives.push(alt);
+      continue;
+    }
+
+    try {
+      const url = new URL(alt.product_url);
+      const domain = url.hostname.replace(/^www\./, '').toLowerCase();
+
+      if (!domainGroups[domain]) {
+        domainGroups[domain] = [];
+      }
+      domainGroups[domain].push(alt);
+    } catch (error) {
+      // Invalid URL, add to null group
+      nullUrlAlternatives.push(alt);
+    }
+  }
+
+  // Reorder: Take products round-robin from each domain to maximize diversity
+  const reorderedAlternatives: Alternative[] = [];
+  const domains = Object.keys(domainGroups);
+  let maxProductsPerDomain = Math.max(...domains.map(d => domainGroups[d].length));
+
+  // Round-robin: take 1 from each domain, then repeat
+  for (let i = 0; i < maxProductsPerDomain; i++) {
+    for (const domain of domains) {
+      if (domainGroups[domain][i]) {
+        reorderedAlternatives.push(domainGroups[domain][i]);
+        console.log(`✅ [DIVERSITY] Added from ${domain}: ${domainGroups[domain][i].name}`);
+      }
+    }
+  }
+
+  // Add alternatives without URLs at the end
+  reorderedAlternatives.push(...nullUrlAlternatives);
+
+  // Log domain distribution
+  const domainCount: Record<string, number> = {};
+  domains.forEach(d => {
+    domainCount[d] = domainGroups[d].length;
+  });
+  console.log(`📊 [DIVERSITY] Domain distribution:`, domainCount);
+  console.log(`✅ [DIVERSITY] Reordered ${alternatives.length} alternatives (kept all, prioritized diversity)`);
+
+  return reorderedAlternatives;
+}
+
+/**
+ * Validates that alternatives match the original product's category
+ * Filters out incoherent suggestions (e.g., electronics when original is clothing)
+ * @param {Alternative[]} alternatives - List of alternative products
+ * @param {string} category - Original product category
+ * @param {CategoryData} categoryData - Category configuration
+ * @param {string} productType - Original product type
+ * @returns {Alternative[]} - Filtered list with only coherent alternatives
+ */
+function validateCategoryCoherence(
+  alternatives: Alternative[],
+  category: string,
+  categoryData: CategoryData,
+  productType: string
+): Alternative[] {
+  if (!alternatives || alternatives.length === 0) {
+    return alternatives;
+  }
+
+  console.log(`🔍 [COHERENCE] Validating ${alternatives.length} alternatives for category: ${category}`);
+
+  const categoryKeywords = categoryData.keywords || [];
+  const exclusionKeywords = categoryData.exclusion_keywords || [];
+  
+  // Get keywords from other categories to detect cross-category pollution
+  const otherCategoriesKeywords = new Set<string>();
+  Object.entries(alternativesConfig.categories).forEach(([catKey, catData]) => {
+    if (catKey !== category) {
+      catData.keywords.forEach((kw: string) => otherCategoriesKeywords.add(kw.toLowerCase()));
+    }
+  });
+
+  const coherentAlternatives = alternatives.filter((alt) => {
+    if (!alt || !alt.name) {
+      console.log(`⚠️ [COHERENCE] Removed: No name`);
+      return false;
+    }
+
+    const altName = alt.name.toLowerCase();
+    const altDescription = (alt.description || "").toLowerCase();
+    const combinedText = `${altName} ${altDescription}`;
+
+    // ✅ NEW: Validate product type match (functional coherence)
+    // Only apply strict productType check if productType is meaningful (not too short/generic)
+    const productTypeKeywords = productType.toLowerCase().split(/\s+/);
+    const hasMeaningfulProductType = productTypeKeywords.some(kw => kw.length > 3);
+    
+    if (hasMeaningfulProductType) {
+      const hasProductTypeMatch = productTypeKeywords.some(keyword => 
+        keyword.length > 3 && combinedText.includes(keyword)
+      );
+
+      if (!hasProductTypeMatch) {
+        console.log(`❌ [COHERENCE] Removed "${alt.name}": Different product type (expected: ${productType}, found: ${altName})`);
+        return false;
+      }
+    } else {
+      console.log(`ℹ️ [COHERENCE] Skipping productType check for "${alt.name}" (productType too generic: "${productType}")`);
+    }
+
+    // Check if alternative matches category keywords
+    const hasMatchingKeyword = categoryKeywords.some((kw: string) => 
+      combinedText.includes(kw.toLowerCase())
+    );
+
+    // Check if alternative has exclusion keywords (wrong category indicators)
+    const hasExclusionKeyword = exclusionKeywords.some((kw: string) =>
+      combinedText.includes(kw.toLowerCase())
+    );
+
+    // Check if alternative matches keywords from OTHER categories (cross-pollution)
+    const matchesOtherCategory = Array.from(otherCategoriesKeywords).some(kw =>
+      combinedText.includes(kw) && !categoryKeywords.includes(kw)
+    );
+
+    // Decision logic
+    if (hasExclusionKeyword) {
+      console.log(`❌ [COHERENCE] Removed "${alt.name}": Has exclusion keyword`);
+      return false;
+    }
+
+    if (matchesOtherCategory && !hasMatchingKeyword) {
+      console.log(`❌ [COHERENCE] Removed "${alt.name}": Matches different category`);
+      return false;
+    }
+
+    if (!hasMatchingKeyword) {
+      console.log(`⚠️ [COHERENCE] Warning "${alt.name}": No matching keywords, but keeping (might be valid)`);
+    } else {
+      console.log(`✅ [COHERENCE] Valid "${alt.name}": Matches category${hasMeaningfulProductType ? ' and product type' : ''}`);
+    }
+
+    return true;
+  });
+
+  console.log(`📊 [COHERENCE] Kept ${coherentAlternatives.length}/${alternatives.length} coherent alternatives`);
+
+  return coherentAlternatives;
+}
+
+
+
+// ════════════════════════════════════════════════════════════
+// FUNÇÃO AUXILIAR: Extrai domínios do país dinamicamente
+// ════════════════════════════════════════════════════════════
+function getCountryDomains(userCountry: string): string[] {
+  const countryData = COUNTRY_ECOMMERCE[userCountry] || COUNTRY_ECOMMERCE["US"];
+
+  // Extrai domínios dos e-commerces do país
+  const domains = countryData.domains.map((domain) => {
+    // Remove "www." e pega só o domínio
+    return domain.replace("www.", "").toLowerCase();
+  });
+
+  // Adiciona o nome do país como variação
+  const countryName = countryData.name.toLowerCase();
+  domains.push(countryName);
+
+  return domains;
+}
+
+/**
+ * Categorização com cache por etapa: as entradas que decidem a
+ * categoria (nome, descrição, título e URL) formam a chave.
+ */
+async function identifyCategoryCached(productInfo: ProductInfo): Promise<CategoryAssignment> {
+  const input: CategorizationInput = {
+    productName: productInfo.productName || productInfo.product_name || "",
+    description: productInfo.description || "",
+    pageTitle: productInfo.pageTitle || "",
+    pageUrl: productInfo.pageUrl || productInfo.product_url || "",
+  };
+
+  const cached = await withStageCache<CategoryAssignment | string>(
+    "category",
+    { ...input },
+    { product: input.productName },
+    async (skipCache) => {
+      // Categoria decidida sobre um nome sem tradução também não fica no cache
+      const { category, secondaryCategories, subcategoryPath } = await categorizeProduct(input, {
+        translate: (name) => translateProductName(name, undefined, skipCache),
+      });
+      return { category, secondaryCategories, subcategoryPath };
+    }
+  );
+
+  // Entradas gravadas antes da taxonomia guardavam só a chave da categoria
+  return typeof cached === "string"
+    ? { category: cached, secondaryCategories: [], subcategoryPath: [] }
+    : cached;
+}
+
+/**
+ * Pipeline completo (STEPS 2-7): categoria, tradução, busca, score
+ * determinístico, análise com Groq e gravação no cache. Usado no cache
+ * miss e no refresh em background de entradas stale.
+ */
+async function runFullAnalysis(
+  body: AnalysisRequest,
+  productInfo: ProductInfo,
+  productName: string,
+  userCountry: string,
+  progress: AnalysisProgressListener = {}
+): Promise<{ category: string; analysis: GroqAnalysisResult }> {
+  // Progresso é informativo: erro ao reportar não interrompe a análise
+  const report = async (label: string, emit: () => unknown) => {
+    try {
+      await emit();
+    } catch (error) {
+      console.error(`❌ [PROGRESS] Error reporting "${label}":`, error);
+    }
+  };
+  const reportStage = (stage: AnalysisStage) => report(stage, () => progress.onStage?.(stage));
+
+  await reportStage("categorizing");
+
+  // ════════════════════════════════════════════════════════════
+  // STEP 2: IDENTIFICAR CATEGORIA (com validação do frontend)
+  // ════════════════════════════════════════════════════════════
+  const categoryFromFrontend = body.category;
+  let assignment: CategoryAssignment;
+
+  if (categoryFromFrontend) {
+    console.log("📥 [BACKEND] Category from frontend:", categoryFromFrontend);
+
+    const availableCategories = Object.keys(alternativesConfig.categories);
+
+    if (availableCategories.includes(categoryFromFrontend)) {
+      console.log(
+        "✅ [BACKEND] Frontend category is valid:",
+        categoryFromFrontend
+      );
+      console.log("🔍 [BACKEND] Validating if category matches product...");
+
+      const productLower = productName.toLowerCase();
+      const categoryData =
+        alternativesConfig.categories[categoryFromFrontend];
+
+      // Verificar se alguma keyword da categoria aparece no nome do produto
+      const hasKeywordMatch = categoryData.keywords.some((keyword: string) =>
+        productLower.includes(keyword.toLowerCase())
+      );
+
+      // Verificar se alguma exclusion_keyword aparece (indica categoria errada)
+      const exclusionKeywords =
+        (categoryData as any).exclusion_keywords || [];
+      const hasExclusionMatch = exclusionKeywords.some((keyword: string) =>
+        productLower.includes(keyword.toLowerCase())
+      );
+
+      if (hasKeywordMatch && !hasExclusionMatch) {
+        console.log(
+          "✅ [BACKEND] Category validated, using frontend category:",
+          categoryFromFrontend
+        );
+        assignment = {
+          category: categoryFromFrontend,
+          secondaryCategories: [],
+          subcategoryPath: [],
+        };
+      } else {
+        console.warn(
+          "⚠️ [BACKEND] Category does NOT match product, ignoring frontend category"
+        );
+        console.warn("⚠️ [BACKEND] Product:", productName.substring(0, 50));
+        console.warn("⚠️ [BACKEND] Frontend sent:", categoryFromFrontend);
+        console.warn("⚠️ [BACKEND] Will use heuristic instead");
+
+        // Usar heurística
+        assignment = await identifyCategoryCached(productInfo);
+        console.log("✅ [BACKEND] Heuristic category:", assignment.category);
+      }
+    } else {
+      console.warn(
+        "⚠️ [BACKEND] Frontend sent invalid category:",
+        categoryFromFrontend
+      );
+      assignment = await identifyCategoryCached(productInfo);
+      console.log("✅ [BACKEND] Heuristic category:", assignment.category);
+    }
+  } else {
+    // Categoria não enviada pelo frontend
+    assignment = await identifyCategoryCached(productInfo);
+  }
+
+  const { category, secondaryCategories, subcategoryPath } = assignment;
+  console.log("📂 [CATEGORY] Final category:", category);
+  if (secondaryCategories.length > 0 || subcategoryPath.length > 0) {
+    console.log("📂 [CATEGORY] Taxonomy:", {
+      subcategoryPath,
+      secondary: secondaryCategories.map((secondary) => `${secondary.category} (${secondary.share})`),
+    });
+  }
+
+  console.log("📊 [CRITERIA] Structure:", {
+    hasIndicators:
+      !!alternativesConfig.categories[category]?.sustainability_criteria
+        ?.durability?.indicators,
+    hasGuidelines:
+      !!alternativesConfig.categories[category]?.sustainability_criteria
+        ?.durability?.guidelines,
+    version: alternativesConfig.version,
+  });
+
+  // Com secundárias, os critérios da primária já vêm mesclados
+  const categories = getScoringCategories(category, secondaryCategories);
+  const categoryData = categories[category];
+
+  if (!categoryData) {
+    throw new Error(`Category not found: ${category}`);
+  }
+
+  await report("category", () => progress.onCategory?.(category));
+
+  // ════════════════════════════════════════════════════════════
+  // STEP 3: TRADUZIR E DETECTAR TIPO (só executa se cache miss)
+  // ════════════════════════════════════════════════════════════
+  await reportStage("searching");
+  console.log("🔍 [SEARCH] Searching sustainable alternatives...");
+
+  // Tradução, tipo e categoria não dependem do país: reaproveitados do cache
+  const translatedName = await withStageCache(
+    "translation",
+    { productName },
+    { product: productName },
+    (skipCache) => translateProductName(productName, undefined, skipCache)
+  );
+  const productType = await withStageCache(
+    "productType",
+    { translatedName, pageTitle: productInfo.pageTitle || "", categoryName: categoryData.name },
+    { product: productName, category },
+    (skipCache) =>
+      detectProductType(translatedName, productInfo.pageTitle || "", categoryData.name, skipCache)
+  );
+
+  console.log("🏷️ [TYPE] Detected:", {
+    productType: productType,
+    translatedName: translatedName,
+  });
+
+  // ════════════════════════════════════════════════════════════
+  // STEP 4: BUSCAR PRODUTOS REAIS (não usa Groq)
+  // ════════════════════════════════════════════════════════════
+  const { products: realProducts, validUrls } = await withStageCache(
+    "search",
+    { productName, productType, category, userCountry },
+    { product: productName, country: userCountry, category },
+    (skipCache) =>
+      searchRealProducts(productName, productType, categoryData, category, userCountry, skipCache)
+  );
+
+  console.log(`✅ [SEARCH] Found ${realProducts.length} products`);
+
+  // ════════════════════════════════════════════════════════════
+  // STEP 5: EXTRAIR FATOS E CALCULAR SCORE DETERMINÍSTICO
+  // ════════════════════════════════════════════════════════════
+  await reportStage("scoring");
+  const scoredProduct = await scoreOriginalProduct(
+    productName,
+    category,
+    categoryData,
+    userCountry,
+    body.userLanguage || getLanguageFromCountry(userCountry)
+  );
+
+  // ════════════════════════════════════════════════════════════
+  // STEP 6: ANALISAR COM GROQ (só executa se cache miss)
+  // ════════════════════════════════════════════════════════════
+  // Score do original sai antes da chamada (lenta) das alternativas
+  await report("score", () =>
+    progress.onScore?.(
+      applyScoreToOriginalProduct(
+        {
+          name: productName,
+          category,
+          secondary_categories: secondaryCategories,
+          subcategory_path: subcategoryPath,
+          ...scoredProduct.texts,
+        } as OriginalProduct,
+        scoredProduct.score
+      )
+    )
+  );
+
+  await reportStage("alternatives");
+  console.log("📡 [GROQ] Analyzing product...");
+
+  const analysis = await analyzeWithGroq(
+    productInfo,
+    category,
+    categoryData,
+    productType,
+    realProducts,
+    userCountry,
+    validUrls,
+    scoredProduct
+  );
+
+  if (!analysis) {
+    throw new Error("Failed to generate analysis");
+  }
+
+  // A re-pontuação do cache precisa das secundárias para mesclar de novo
+  analysis.originalProduct = {
+    ...analysis.originalProduct,
+    secondary_categories: secondaryCategories,
+    subcategory_path: subcategoryPath,
+  };
+
+  for (const [index, alternative] of analysis.alternatives.entries()) {
+    await report("alternative", () => progress.onAlternative?.(alternative, index));
+  }
+
+  // ════════════════════════════════════════════════════════════
+  // STEP 7: SALVAR NO CACHE
+  // ════════════════════════════════════════════════════════════
+  await setCachedAnalysis(productName, userCountry, {
+    ...analysis,
+    facts: scoredProduct.facts,
+  });
+  console.log("💾 [CACHE] Analysis saved to cache");
+  await recordHistory(productName, userCountry, analysis, "analysis");
+
+  return { category, analysis };
+}
+
+// ===== PIPELINE DE UMA REQUEST =====
+/**
+ * Cache → análise completa (uma por fingerprint) → resposta. Usado pela
+ * rota síncrona, pelos jobs assíncronos e pelo streaming (via `progress`).
+ */
+export async function analyzeProduct(
+  body: AnalysisRequest,
+  productInfo: ProductInfo,
+  productName: string,
+  userCountry: string,
+  progress?: AnalysisProgressListener
+): Promise<AnalysisResponse> {
+  // ════════════════════════════════════════════════════════════
+  // ✅ STEP 1: CHECK CACHE FIRST (ANTES DE QUALQUER GROQ!)
+  // ════════════════════════════════════════════════════════════
+  console.log("🔍 [CACHE] Checking cache BEFORE any Groq calls...");
+
+  const cachedResult = await getCachedAnalysis(productName, userCountry);
+
+  if (cachedResult) {
+    const cachedAnalysis = cachedResult.analysis;
+
+    // ✅ Stale-while-revalidate: responde já e recalcula em background
+    if (cachedResult.stale) {
+      refreshInBackground(getAnalysisCacheKey(productName, userCountry), () =>
+        runFullAnalysis(body, productInfo, productName, userCountry)
+      );
+    }
+    console.log(
+      "🚀 [CACHE] HIT! Returning cached result (0 tokens, 0 API calls)"
+    );
+
+    // Retorna imediatamente sem chamar Groq
+    const SUSTAINABLE_THRESHOLD = 70;
+    const isAlreadySustainable = cachedAnalysis.originalProduct.sustainability_score >= SUSTAINABLE_THRESHOLD;
+    const sustainableMessage = isAlreadySustainable ? await getSustainableProductMessage(productName) : undefined;
+
+    return {
+      success: true,
+      productInfo: {
+        productName: productName,
+        pageUrl: productInfo.pageUrl || "",
+        pageTitle: productInfo.pageTitle || "",
+        selectedText: productInfo.selectedText || "",
+      },
+      category: cachedAnalysis.originalProduct.category,
+      originalProduct: cachedAnalysis.originalProduct,
+      alternatives: cachedAnalysis.alternatives,
+      isAlreadySustainable: isAlreadySustainable,
+      sustainableMessage: sustainableMessage,
+      timestamp: new Date().toISOString(),
+      _meta: {
+        cached: true,
+        tokensUsed: 0,
+        tokensSaved: "~2800",
+        rescored: cachedResult.rescored,
+        stale: cachedResult.stale,
+        cachedAt: cachedAnalysis.cachedAt
+          ? new Date(cachedAnalysis.cachedAt).toISOString()
+          : undefined,
+        kbVersion: alternativesConfig.version,
+      },
+    };
+  }
+
+  console.log("📭 [CACHE] MISS - Proceeding with full analysis...");
+
+  // ════════════════════════════════════════════════════════════
+  // ✅ PROTEÇÃO CONTRA REQUESTS DUPLICADAS
+  // A primeira request pega o lock do fingerprint; as concorrentes
+  // esperam o resultado dela em vez de repetir a análise
+  // ════════════════════════════════════════════════════════════
+  const { result: response, coalesced } = await singleFlight(
+    getRequestFingerprintKey(productName, userCountry),
+    async () => {
+      const { category, analysis } = await runFullAnalysis(
+        body,
+        productInfo,
+        productName,
+        userCountry,
+        progress
+      );
+
+      // ════════════════════════════════════════════════════════════
+      // STEP 8: RETORNAR RESULTADO
+      // ════════════════════════════════════════════════════════════
+
+      // ✅ Check if product is already sustainable
+      const SUSTAINABLE_THRESHOLD = 70;
+      const isAlreadySustainable = analysis.originalProduct.sustainability_score >= SUSTAINABLE_THRESHOLD;
+      const sustainableMessage = isAlreadySustainable ? await getSustainableProductMessage(productName) : undefined;
+
+      if (isAlreadySustainable) {
+        console.log(`🌱 [SUSTAINABLE] Product already sustainable! Score: ${analysis.originalProduct.sustainability_score}`);
+        console.log(`💬 [MESSAGE] Localized message (${userCountry}): ${sustainableMessage}`);
+      }
+
+      const response: AnalysisResponse = {
+        success: true,
+        productInfo: {
+          productName: productName,
+          pageUrl: productInfo.pageUrl || "",
+          pageTitle: productInfo.pageTitle || "",
+          selectedText: productInfo.selectedText || "",
+        },
+        category: category,
+        originalProduct: analysis.originalProduct,
+        alternatives: analysis.alternatives,
+        isAlreadySustainable: isAlreadySustainable,  // ✅ Flag for frontend
+        sustainableMessage: sustainableMessage,  // ✅ NEW: Localized message
+        timestamp: new Date().toISOString(),
+        _meta: {
+          cached: false,
+          tokensUsed: "~2800",
+          kbVersion: alternativesConfig.version,
+        },
+      };
+
+      return response;
+    }
+  );
+
+  if (coalesced) {
+    console.log("⚠️ [DUPLICATE] Request duplicada, retornando resultado da request em andamento");
+    return {
+      ...response,
+      _meta: {
+        ...response._meta,
+        cached: true,
+        duplicate: true,
+      },
+    };
+  }
+
+  return response;
+}
+
+/**
+ * Normaliza o corpo da request: productInfo (ou campos soltos) e país
+ * validado contra a URL e o nome do produto.
+ */
+export function resolveAnalysisRequest(body: AnalysisRequest): {
+  productInfo: ProductInfo;
+  productName: string | undefined;
+  userCountry: string;
+} {
+  const rawUserCountry =
+    body.userCountry || body.productInfo?.userCountry || "US";
+  console.log("🌍 [COUNTRY] Raw user country:", rawUserCountry);
+
+  const productInfo: ProductInfo = body.productInfo || {
+    productName: body.product_name || body.productName,
+    pageUrl: body.product_url || body.pageUrl,
+    userCountry: rawUserCountry,
+  };
+
+  productInfo.userCountry = productInfo.userCountry || rawUserCountry;
+
+  // Cross-validate country (não usa Groq, pode ficar aqui)
+  const userCountry = validateAndCorrectCountry(
+    productInfo.userCountry,
+    productInfo.pageUrl,
+    productInfo.productName || productInfo.product_name || ""
+  );
+
+  productInfo.userCountry = userCountry;
+  console.log("🌍 [COUNTRY] Validated country:", userCountry);
+
+  return {
+    productInfo,
+    productName: productInfo.productName || productInfo.product_name,
+    userCountry,
+  };
+}
+
+/**
+ * Análise completa a partir de um corpo no formato de /api/analyze-product
+ * (cache, single-flight e resposta iguais). Usado pelo /api/analyze-batch.
+ */
+export async function analyzeProductRequest(
+  body: AnalysisRequest
+): Promise<AnalysisResponse> {
+  const { productInfo, productName, userCountry } = resolveAnalysisRequest(body);
+  if (!productName) {
+    throw new Error("productName is required");
+  }
+
+  return analyzeProduct(body, productInfo, productName, userCountry);
+}
+
+/**
+ * Análise que o próprio servidor guardou para o produto e país, lida do
+ * cache com as mesmas checagens de TTL e carimbo da KB. Não analisa nada:
+ * sem entrada guardada devolve `success: false`. Base do /api/export, que
+ * não aceita análises enviadas pelo cliente.
+ */
+export async function loadStoredAnalysis(
+  body: AnalysisRequest
+): Promise<AnalysisResponse> {
+  const { productName, userCountry } = resolveAnalysisRequest(body);
+  if (!productName) {
+    throw new Error("productName is required");
+  }
+
+  const cachedResult = await getCachedAnalysis(productName, userCountry);
+  if (!cachedResult) {
+    return {
+      success: false,
+      error: `No stored analysis for "${productName}" (${userCountry}): analyze it first`,
+    };
+  }
+
+  const { analysis } = cachedResult;
+  const cachedAt = analysis.cachedAt ? new Date(analysis.cachedAt).toISOString() : undefined;
+
+  return {
+    success: true,
+    // URL da página fica de fora: viria do cliente, não da análise
+    productInfo: {
+      productName,
+      pageUrl: "",
+    },
+    category: analysis.originalProduct.category,
+    originalProduct: analysis.originalProduct,
+    alternatives: analysis.alternatives,
+    timestamp: cachedAt,
+    _meta: {
+      cached: true,
+      rescored: cachedResult.rescored,
+      stale: cachedResult.stale,
+      cachedAt,
+      kbVersion: analysis.kbVersion || alternativesConfig.version,
+    },
+  };
+}
+
+// ===== BUSCAR PRODUTOS REAIS (CORRIGIDO) =====
+async function searchRealProducts(
+  productName: string,
+  productType: string,
+  categoryData: CategoryData,
+  category: string,
+  userCountry: string,
+  onFallback: (reason: string) => void = () => {}
+): Promise<{
+  products: Array<{ title: string; url: string; snippet: string }>;
+  validUrls: string[];
+}> {
+  const country = COUNTRY_ECOMMERCE[userCountry] || COUNTRY_ECOMMERCE["US"];
+
+  // ✅ IMPROVED: Use exact productType in quotes for more specific results
+  const primaryQuery = `sustainable eco-friendly "${productType}" buy shop ${
+    country.name
+  } (${country.domains.map((d: string) => "site:" + d).join(" OR ")})`;
+
+  console.log(`🔍 [TAVILY] Primary Query: ${primaryQuery}`);
+
+  try {
+    let results = await webSearchClient.search(primaryQuery, {
+      maxResults: 100,
+      searchDepth: "advanced",
+      includeAnswer: false,
+    });
+
+    const validUrls = new Set(
+      (results.results || []).map((r) => r.url).filter(Boolean)
+    );
+
+    console.log(`🔍 [TAVILY] Primary search found ${validUrls.size} URLs`);
+
+    // ✅ NEW: Log sample results for debugging
+    if (validUrls.size > 0) {
+      console.log(`📋 [TAVILY] Sample results from primary query:`);
+      Array.from(validUrls).slice(0, 3).forEach((url, i) => {
+        console.log(`  ${i + 1}. ${url}`);
+      });
+    }
+
+    // ✅ FALLBACK 1: If few results, try without quotes (broader)
+    if (!results.success || !results.results || results.results.length < 8) {
+      console.log(`⚠️ [SEARCH] Only ${results.results?.length || 0} results, trying fallback 1 (no quotes)...`);
+      const fallback1Query = `sustainable eco-friendly ${productType} ${country.name}`;
+      console.log(`🔎 [SEARCH] Fallback 1 Query: ${fallback1Query}`);
+
+      const fallback1Results = await webSearchClient.search(fallback1Query, {
+        maxResults: 100,
+        searchDepth: "advanced",
+        includeAnswer: false,
+      });
+
+      (fallback1Results.results || []).forEach((r) => {
+        if (r?.url) {
+          validUrls.add(r.url);
+        }
+      });
+
+      console.log(`🔍 [TAVILY] After fallback 1: ${validUrls.size} total URLs`);
+
+      // Merge results
+      if (fallback1Results.results) {
+        results.results = [...(results.results || []), ...fallback1Results.results];
+      }
+    }
+
+    // ✅ FALLBACK 2: If still few results, try very broad query
+    if (validUrls.size < 8) {
+      console.log(`⚠️ [SEARCH] Only ${validUrls.size} URLs, trying fallback 2 (very broad)...`);
+      const fallback2Query = `eco-friendly ${productType} shop online`;
+      console.log(`🔎 [SEARCH] Fallback 2 Query: ${fallback2Query}`);
+
+      const fallback2Results = await webSearchClient.search(fallback2Query, {
+        maxResults: 100,
+        searchDepth: "advanced",
+        includeAnswer: false,
+      });
+
+      (fallback2Results.results || []).forEach((r) => {
+        if (r?.url) {
+          validUrls.add(r.url);
+        }
+      });
+
+      console.log(`🔍 [TAVILY] After fallback 2: ${validUrls.size} total URLs`);
+
+      // Merge results
+      if (fallback2Results.results) {
+        results.results = [...(results.results || []), ...fallback2Results.results];
+      }
+    }
+
+    console.log(`✅ [TAVILY] Final total: ${validUrls.size} unique URLs from all queries`);
+
+    if (!results.success || !results.results) {
+      onFallback(results.error || "search failed");
+      return { products: [], validUrls: Array.from(validUrls) };
+    }
+
+    const rawResults = (results.results || []).filter(Boolean);
+
+    // ✅ Pegar domínios permitidos do país (SEM HARDCODE)
+    const allowedDomains = country.domains;
+
+    // ✅ Pegar certificações da categoria (SEM HARDCODE)
+    const sustainKeywords = categoryData.certifications.map((cert) =>
+      cert.toLowerCase()
+    );
+
+    const validProducts = rawResults.filter((r) => {
+      const url = (r.url || "").toLowerCase();
+      const text = `${r.title || ""} ${r.snippet || ""}`.toLowerCase();
+
+      if (!url) {
+        return false;
+      }
+
+      let host = "";
+      try {
+        host = new URL(url).hostname.toLowerCase();
+      } catch (_) {
+        console.log(`🔍 [FILTER] Rejected: ${url} - Reason: invalid URL`);
+        return false;
+      }
+
+      // ✅ IMPROVED: Accept any domain with country TLD or specific e-commerce sites
+      const countryName = country.name.toLowerCase();
+      
+      // Extract TLD from allowed domains (e.g., "com.br" from "mercadolivre.com.br")
+      const countryTLDs = new Set<string>();
+      allowedDomains.forEach((domain: string) => {
+        const parts = domain.split('.');
+        if (parts.length >= 2) {
+          // Get last 2 parts (e.g., "com.br" or just "br")
+          const tld = parts.slice(-2).join('.');
+          countryTLDs.add(tld);
+          // Also add single TLD (e.g., "br")
+          countryTLDs.add(parts[parts.length - 1]);
+        }
+      });
+      
+      const matchesDomain =
+        allowedDomains.some((domain: string) => host.includes(domain)) || // Specific e-commerce
+        Array.from(countryTLDs).some(tld => host.endsWith(`.${tld}`)) ||  // Any domain with country TLD
+        host.includes(countryName) ||                                      // Domain contains country name
+        url.includes(countryName);                                         // URL contains country name
+
+      if (!matchesDomain) {
+        console.log(
+          `🔍 [FILTER] Rejected: ${url} - Reason: domain not in ${userCountry} (host: ${host}, allowed TLDs: ${Array.from(countryTLDs).join(', ')})`
+        );
+        return false;
+      }
+
+      // ✅ FILTRO RELAXADO: Remove apenas produtos CLARAMENTE não relacionados
+      const blacklist = [
+        "book",
+        "ebook",
+        "guide",
+        "manual",
+        "course",
+        "tutorial",
+        "article",
+        "pdf",
+      ];
+      const isBlacklisted = blacklist.some((word) => text.includes(word));
+
+      if (isBlacklisted) {
+        console.log(
+          `🔍 [FILTER] Rejected: ${url} - Reason: not a product (${blacklist.find(
+            (w) => text.includes(w)
+          )})`
+        );
+        return false;
+      }
+
+      // ✅ REMOVIDO: Filtro de "sustainability keywords" - deixa o Groq decidir
+      // O Tavily já busca com "sustainable eco-friendly", não precisa filtrar novamente
+
+      return true;
+    });
+    console.log(
+      `✅ [SEARCH] Filtered: ${validProducts.length}/${results.results.length}`
+    );
+
+    const unique = Array.from(
+      new Map(validProducts.map((p) => [p.url, p])).values()
+    );
+
+    const limited = unique.slice(0, 20);
+
+    console.log(
+      `✅ [SEARCH] Returning ${limited.length} products after dedupe/limit`
+    );
+
+    const products = limited.map((r) => ({
+      title: r.title || "Untitled Product",
+      url: r.url || "",
+      snippet: r.snippet || "No description available",
+    }));
+
+    return { products, validUrls: Array.from(validUrls) };
+  } catch (error) {
+    console.error("❌ [SEARCH] Error:", error);
+    onFallback("search error");
+    return { products: [], validUrls: [] };
+  }
+}
+
+// ===== SCORE DETERMINÍSTICO DO PRODUTO ORIGINAL =====
+/**
+ * Copia o score determinístico para o produto original da resposta.
+ * Usado na análise e ao re-pontuar entradas de cache de uma KB antiga.
+ */
+function applyScoreToOriginalProduct(
+  original: OriginalProduct,
+  score: SustainabilityScore
+): OriginalProduct {
+  return {
+    ...original,
+    sustainability_score: score.finalScore,
+    classification: score.classification,
+    breakdown: score.breakdown,
+    missed_targets: score.missedTargets,
+    data_coverage: score.dataCoverage,
+    confidence_band: score.confidenceBand,
+    // Só selos verificados no certification_registry; autodeclarações e
+    // citações desconhecidas ficam em certification_check
+    certifications_found: score.certifications.recognized.map((certification) => certification.name),
+    certification_check: score.certifications,
+  };
+}
+
+/**
+ * Extrai os fatos de cada critério das evidências da web e calcula a nota
+ * final com os pesos da categoria em alternatives.json: as mesmas
+ * evidências sempre dão a mesma nota. Usado na análise e no /api/compare.
+ */
+export async function scoreProductInCategory(
+  productName: string,
+  category: string,
+  categoryData: CategoryData = alternativesConfig.categories[category]
+): Promise<{ facts: ProductFacts; score: SustainabilityScore }> {
+  const evidence = await webSearchClient.searchProductSustainability(
+    productName,
+    categoryData.name
+  );
+
+  const facts = await extractProductFacts(
+    productName,
+    category,
+    evidence.results || [],
+    evidence.answer,
+    categoryData.sustainability_criteria
+  );
+  const score = calculateSustainabilityScore(
+    facts,
+    category,
+    { ...alternativesConfig.categories, [category]: categoryData }
+  );
+
+  return { facts, score };
+}
+
+/**
+ * Score determinístico do produto original e, só depois dele, os textos
+ * descritivos pedidos ao LLM.
+ */
+async function scoreOriginalProduct(
+  productName: string,
+  category: string,
+  categoryData: CategoryData,
+  userCountry: string,
+  userLanguage: string
+): Promise<ScoredProduct> {
+  console.log("🔍 [SCORING] Searching evidence for original product...");
+
+  const { facts, score } = await scoreProductInCategory(productName, category, categoryData);
+
+  console.log(
+    `📊 [SCORING] Deterministic score: ${score.finalScore} ± ${score.confidenceBand.margin} (${score.classification}, ${score.dataCoverage}% coverage)`
+  );
+
+  const texts = await generateDescriptiveTexts(
+    productName,
+    category,
+    score.finalScore,
+    score.breakdown,
+    facts,
+    userLanguage,
+    userCountry
+  );
+
+  return { facts, score, texts };
+}
+
+// ===== ANALISAR COM GROQ (CORRIGIDO) =====
+async function analyzeWithGroq(
+  productInfo: ProductInfo,
+  category: string,
+  categoryData: CategoryData,
+  productType: string,
+  realProducts: Array<{ title: string; url: string; snippet: string }>,
+  userCountry: string,
+  validUrls: string[],
+  scoredProduct: ScoredProduct
+): Promise<GroqAnalysisResult> {
+  const groqApiKey = getGroqApiKey();
+  if (!groqApiKey) {
+    throw new Error("GROQ_API_KEY not configured");
+  }
+
+  const groq = createGroqClient(groqApiKey);
+  const productName = productInfo.productName || productInfo.product_name || "";
+
+  const localEcommerce = getLocalEcommerce(userCountry);
+
+  // Build criteria text
+  const criteriaText = formatCriteriaForPrompt(categoryData);
+
+  // Build products list
+  const validProducts = (realProducts || [])
+    .filter((p) => p && typeof p === "object" && p.title && p.url)
+    .map((p) => ({
+      title: p.title || "Untitled",
+      url: p.url || "N/A",
+      snippet: p.snippet || "No description available",
+    }));
+
+  const productsText =
+    validProducts.length > 0
+      ? `\n\nREAL PRODUCTS FOUND (${
+          validProducts.length
+        } total):\n${validProducts
+          .map(
+            (p, i) =>
+              `${i + 1}. ${p.title}\n   URL: ${p.url}\n   ${(
+                p.snippet || "No description available"
+              ).substring(0, 100)}...\n`
+          )
+          .join("\n")}`
+      : "\n\nNO PRODUCTS FOUND - Suggest well-known sustainable brands in the user's country.";
+
+  console.log(`📊 [GROQ] Sending ${validProducts.length} products to Groq for analysis`);
+  if (validProducts.length > 0) {
+    console.log(`📋 [GROQ] Sample products being sent:`);
+    validProducts.slice(0, 3).forEach((p, i) => {
+      console.log(`  ${i + 1}. ${p.title}`);
+      console.log(`     URL: ${p.url}`);
+    });
+  }
+
+  const prompt = `You are a sustainability expert analyzing products for users worldwide.
+
+    ═══════════════════════════════════════════════════════════════
+    USER CONTEXT:
+    ═══════════════════════════════════════════════════════════════
+    - User Country: ${userCountry}
+    - Product Name: ${productName}
+    - Local E-commerce Sites: ${localEcommerce.slice(0, 5).join(", ")}
+
+    ═══════════════════════════════════════════════════════════════
+    DYNAMIC LOCALIZATION (CRITICAL):
+    ═══════════════════════════════════════════════════════════════
+
+    1. LANGUAGE DETECTION:
+      - Analyze the product name: "${productName}"
+      - Determine the language automatically
+      - Respond in the SAME LANGUAGE as the product name
+      - If product name is in Korean, respond in Korean
+      - If product name is in German, respond in German
+      - If product name is in Spanish, respond in Spanish
+      - And so on for ANY language
+
+    2. CERTIFICATIONS:
+      - Include certifications relevant to ${userCountry}
+      - Research what certifications are used in this country
+
+    ═══════════════════════════════════════════════════════════════
+    ORIGINAL PRODUCT SCORE (ALREADY CALCULATED - DO NOT CHANGE):
+    ═══════════════════════════════════════════════════════════════
+
+    The original product's sustainability_score is ${scoredProduct.score.finalScore}/100.
+    It was computed deterministically from the category weights. Return it as-is.
+
+    ═══════════════════════════════════════════════════════════════
+    SCORING METHODOLOGY FOR ALTERNATIVES (MANDATORY):
+    ═══════════════════════════════════════════════════════════════
+
+    You MUST calculate each alternative's sustainability_score using weighted average of criteria scores.
+
+    STEP 1 - Analyze the product name for material indicators:
+    Look for keywords that indicate sustainable materials:
+    - Natural fibers: bamboo, bambu, linen, linho, hemp, cânhamo, cotton, algodão
+    - Organic: organic, orgânico, orgânica, bio
+    - Recycled: recycled, reciclado, reciclada, upcycled
+
+    If found, the "materials" criterion should score HIGH (75-95).
+
+    STEP 2 - Score each criterion (0-100):
+    For each criterion in the category, evaluate based on:
+    - Evidence of compliance with guidelines: 70-100
+    - Sustainable material in product name (for materials criterion): 75-95
+    - No information available: 50 (neutral, NOT zero)
+    - Evidence of non-compliance: 0-30
+
+    STEP 3 - Calculate weighted score:
+    Final score = sum of (criterion_score × criterion_weight) for all criteria
+
+    STEP 4 - Validate your score:
+    - Product with sustainable material in name + no negative indicators = minimum 55
+    - Product with certified sustainable material = minimum 70
+    - Product with synthetic/conventional materials = maximum 50
+
+    CRITICAL: The product name "${productName}" - analyze it for material keywords BEFORE scoring.
+
+    ═══════════════════════════════════════════════════════════════
+    IMPORTANT:
+    ═══════════════════════════════════════════════════════════════
+
+    - Do NOT ask what language to use
+    - Do NOT default to English unless product name is in English
+    - Detect language automatically from product name
+    - Match the language exactly
+    - This works for ANY language: Korean, Japanese, Chinese, Arabic, Hindi, etc.
+
+    Now analyze this product:
+    Product: ${productName}
+    Category: ${categoryData.name}
+    Country: ${userCountry}
+    URL: ${productInfo.pageUrl || "N/A"}
+
+    SUSTAINABILITY CRITERIA FOR THIS CATEGORY:
+    ${criteriaText}
+
+    RELEVANT CERTIFICATIONS: ${categoryData.certifications.join(", ")}
+    ${productsText}
+
+    ═══════════════════════════════════════════════════════════════
+    CRITICAL INSTRUCTIONS - READ CAREFULLY:
+    ═══════════════════════════════════════════════════════════════
+
+    🚨 RULE #0 - CATEGORY COHERENCE (MOST IMPORTANT):
+    ═══════════════════════════════════════════════════════════════
+    
+    The original product is from category: "${category}" (${categoryData.name})
+    Product type: "${productType}"
+    
+    ALL ALTERNATIVES MUST BE FROM THE SAME CATEGORY AND PRODUCT TYPE.
+    
+    ═══════════════════════════════════════════════════════════════
+    🚨 FUNCTIONAL COHERENCE (ABSOLUTE PRIORITY):
+    ═══════════════════════════════════════════════════════════════
+    
+    ⚠️ CRITICAL: This is the MOST IMPORTANT rule. Violating this rule makes the entire response USELESS.
+    
+    Original Product Type: "${productType}"
+    Original Product Name: "${productName}"
+    Original Category: "${category}"
+    
+    ═══════════════════════════════════════════════════════════════
+    📋 STEP-BY-STEP VALIDATION PROCESS (MANDATORY FOR EACH ALTERNATIVE):
+    ═══════════════════════════════════════════════════════════════
+    
+    Before adding ANY alternative to your response, you MUST complete this checklist:
+    
+    STEP 1: EXTRACT PRODUCT TYPE
+    - What is the SPECIFIC product type of the original? "${productType}"
+    - Example: If original is "eyeshadow palette", the type is "eyeshadow palette" (NOT "makeup")
+    
+    STEP 2: CHECK ALTERNATIVE NAME
+    - Does the alternative name contain the EXACT words "${productType}"?
+    - OR does it contain a DIRECT SYNONYM? (e.g., "eye shadow" = "eyeshadow")
+    - If NO → REJECT immediately. Do NOT proceed to Step 3.
+    
+    STEP 3: VERIFY FUNCTION
+    - Can the alternative be used for the EXACT SAME PURPOSE as "${productName}"?
+    - Example: If original is "eyeshadow palette" → Can this alternative color eyelids? YES/NO
+    - If NO → REJECT immediately.
+    
+    STEP 4: FINAL CHECK
+    - Would a user looking for "${productType}" be satisfied with this alternative?
+    - If NO → REJECT immediately.
+    
+    ═══════════════════════════════════════════════════════════════
+    ✅ CORRECT EXAMPLES (Study these carefully):
+    ═══════════════════════════════════════════════════════════════
+    
+    Example 1: Original = "eyeshadow palette"
+    ✅ CORRECT: "Organic Eyeshadow Palette" (contains "eyeshadow palette")
+    ✅ CORRECT: "Mineral Eye Shadow Set" (synonym: eye shadow = eyeshadow, set = palette)
+    ✅ CORRECT: "Vegan Eyeshadow Collection" (contains "eyeshadow", collection ≈ palette)
+    ✅ CORRECT: "Natural Eyeshadow Kit" (contains "eyeshadow", kit ≈ palette)
+    
+    Example 2: Original = "shampoo"
+    ✅ CORRECT: "Organic Shampoo" (contains "shampoo")
+    ✅ CORRECT: "Sulfate-Free Shampoo" (contains "shampoo")
+    ✅ CORRECT: "Natural Hair Shampoo" (contains "shampoo")
+    
+    Example 3: Original = "camping tent"
+    ✅ CORRECT: "Eco-Friendly Camping Tent" (contains "camping tent")
+    ✅ CORRECT: "Sustainable Tent for Camping" (contains "tent" + "camping")
+    ✅ CORRECT: "Recycled Material Camping Tent" (contains "camping tent")
+    
+    ═══════════════════════════════════════════════════════════════
+    ❌ WRONG EXAMPLES (NEVER DO THIS - These are CRITICAL MISTAKES):
+    ═══════════════════════════════════════════════════════════════
+    
+    Example 1: Original = "eyeshadow palette"
+    ❌ WRONG: "Makeup Sponge" 
+       Why? Sponge is a TOOL for applying makeup. Eyeshadow is a COLOR product.
+       Different function: sponge applies, eyeshadow colors. REJECT!
+    
+    ❌ WRONG: "Makeup Brush Set"
+       Why? Brushes are TOOLS. Eyeshadow is a COLOR product. REJECT!
+    
+    ❌ WRONG: "Foundation"
+       Why? Foundation is for FACE. Eyeshadow is for EYES. Different body part. REJECT!
+    
+    ❌ WRONG: "Lipstick"
+       Why? Lipstick is for LIPS. Eyeshadow is for EYES. Different body part. REJECT!
+    
+    ❌ WRONG: "Mascara"
+       Why? Mascara is for LASHES. Eyeshadow is for EYELIDS. Different function. REJECT!
+    
+    Example 2: Original = "shampoo"
+    ❌ WRONG: "Conditioner"
+       Why? Shampoo CLEANSES hair. Conditioner MOISTURIZES hair. Different function. REJECT!
+    
+    ❌ WRONG: "Body Wash"
+       Why? Shampoo is for HAIR. Body wash is for BODY. Different body part. REJECT!
+    
+    ❌ WRONG: "Hair Mask"
+       Why? Shampoo CLEANSES. Hair mask TREATS. Different function. REJECT!
+    
+    Example 3: Original = "camping tent"
+    ❌ WRONG: "Sleeping Bag"
+       Why? Tent is SHELTER. Sleeping bag is BEDDING. Different function. REJECT!
+    
+    ❌ WRONG: "Camping Backpack"
+       Why? Tent is SHELTER. Backpack is STORAGE. Different function. REJECT!
+    
+    ❌ WRONG: "Camping Stove"
+       Why? Tent is SHELTER. Stove is COOKING. Different function. REJECT!
+    
+    ═══════════════════════════════════════════════════════════════
+    🔒 MANDATORY SELF-VERIFICATION (Before returning your response):
+    ═══════════════════════════════════════════════════════════════
+    
+    Before you return your JSON response, you MUST verify:
+    
+    1. Count how many alternatives you're returning: _____
+    2. For EACH alternative, verify it contains the words "${productType}" in its name
+    3. If ANY alternative does NOT contain "${productType}" → REMOVE IT from your response
+    4. If you have 0 alternatives after filtering → Return empty array []
+    5. NEVER return alternatives that don't match the product type
+    
+    ═══════════════════════════════════════════════════════════════
+    ⚠️ FINAL WARNING:
+    ═══════════════════════════════════════════════════════════════
+    
+    If you return even ONE alternative that doesn't match "${productType}", 
+    the ENTIRE response will be considered FAILED and USELESS.
+    
+    It is BETTER to return 0 alternatives than to return wrong alternatives.
+    
+    Quality > Quantity. Coherence > Count.
+    
+    ═══════════════════════════════════════════════════════════════
+    
+    ❌ NEVER suggest products from different categories:
+       - If original is CLOTHING (sweater, shirt, pants), DO NOT suggest electronics, furniture, or appliances
+       - If original is ELECTRONICS (phone, laptop), DO NOT suggest clothing, food, or furniture
+       - If original is PERSONAL CARE (shampoo, soap), DO NOT suggest electronics, clothing, or furniture
+       - If original is FURNITURE (chair, table), DO NOT suggest electronics, clothing, or appliances
+    
+    ✅ ONLY suggest products that:
+       1. Belong to the EXACT SAME category: "${category}"
+       2. Are the SAME product type: "${productType}"
+       3. Serve the SAME purpose as the original product
+    
+    EXAMPLES OF CORRECT ALTERNATIVES:
+    - Original: Cotton Sweater → Alternatives: Organic wool sweater, bamboo pullover, recycled cotton jumper
+    - Original: Shampoo → Alternatives: Organic shampoo, sulfate-free shampoo, natural hair wash
+    - Original: Laptop → Alternatives: Refurbished laptop, energy-efficient laptop, recycled materials laptop
+    
+    EXAMPLES OF INCORRECT ALTERNATIVES (NEVER DO THIS):
+    - Original: Sweater → ❌ Printer, Air conditioner, Furniture (WRONG CATEGORY)
+    - Original: Shampoo → ❌ Laptop, Clothing, Furniture (WRONG CATEGORY)
+    - Original: Phone → ❌ Shampoo, Sweater, Chair (WRONG CATEGORY)
+    
+    IF YOU CANNOT FIND 4 ALTERNATIVES FROM THE SAME CATEGORY IN THE SEARCH RESULTS:
+    - Return fewer alternatives (even 0 is acceptable)
+    - DO NOT fill the gap with products from other categories
+    - Category coherence is MORE IMPORTANT than meeting the minimum count
+    
+    ═══════════════════════════════════════════════════════════════
+
+    1. MINIMUM ALTERNATIVES REQUIRED:
+      - You SHOULD provide AT LEAST 4 sustainable alternatives
+      - BUT ONLY if they are from the same category as the original
+      - If you cannot find 4 alternatives from the SAME CATEGORY, return fewer
+      - Look through ALL products in "REAL PRODUCTS FOUND" to find valid options
+
+    2. PRODUCT MATCHING:
+      - Suggest ONLY products that appear in the "REAL PRODUCTS FOUND" list above
+      - Match products by name and description from the search results
+      - Each alternative MUST correspond to one of the numbered items above
+
+    3. URL USAGE (ZERO TOLERANCE POLICY):
+    
+       a) EXACT URL COPY REQUIREMENT:
+          - Copy the URL EXACTLY character-by-character from "REAL PRODUCTS FOUND"
+          - DO NOT modify any part of the URL (path, parameters, domain)
+          - DO NOT combine product name from one result with URL from another
+          - DO NOT add or remove any characters
+          - DO NOT add parameters like "?spm=" or any tracking codes not in the original
+    
+       b) VERIFICATION BEFORE ADDING:
+          - Before adding product_url, find the EXACT URL in the search results above
+          - If you cannot find an EXACT match, DO NOT include that alternative
+          - It is better to return 0 alternatives than to include invalid URLs
+    
+       c) EXAMPLES OF CORRECT USAGE:
+          Search Result: "https://amazon.com/product/B08RQLJRJ3"
+          Your Response: "https://amazon.com/product/B08RQLJRJ3" ✅ (EXACT COPY)
+    
+       d) EXAMPLES OF WRONG USAGE (NEVER DO THIS):
+          ❌ Modifying URL: "https://amazon.com/product/B08RQLJRJ3" → "https://amazon.com/product/B123"
+          ❌ Combining sources: Name from Result #1 + URL from Result #2
+          ❌ Adding parameters: "https://walmart.com/12345" → "https://walmart.com/12345?spm=..."
+          ❌ Inventing URLs: Using a URL not in the search results
+          ❌ Shortening URLs: "https://amazon.com/long/path" → "https://amazon.com/short"
+    
+       e) STRICT VALIDATION:
+          - If URL is not found EXACTLY in search results → SKIP that alternative
+          - Return fewer alternatives rather than including invalid URLs
+          - EVERY alternative MUST have a real, working URL from the search results
+
+    4. VALIDATION CHECKLIST (Check each alternative IN THIS ORDER):
+      ✓ Is it from the SAME CATEGORY as "${category}"? (If NO, REMOVE IT IMMEDIATELY)
+      ✓ Is it the SAME PRODUCT TYPE as "${productType}"? (If NO, REMOVE IT IMMEDIATELY)
+      ✓ Does this product appear in "REAL PRODUCTS FOUND"? (If NO, remove it)
+      ✓ Is the URL copied exactly from the search results? (If NO, remove it)
+      ✓ Is the URL from a store in ${userCountry}? (If NO, remove it)
+      ✓ Is the sustainability_score >= 70? (If NO, remove it)
+
+    5. COUNTRY VERIFICATION:
+      - ALL product URLs MUST be from stores that operate in ${userCountry}
+      - Check the domain: ${localEcommerce.slice(0, 3).join(", ")}
+      - If a URL is from a different country, DO NOT include it
+
+    ═══════════════════════════════════════════════════════════════
+    DOMAIN DIVERSITY REQUIREMENT (FLEXIBLE):
+    ═══════════════════════════════════════════════════════════════
+
+    1. DOMAIN DIVERSITY RULE (FLEXIBLE):
+       - PREFER maximum 2 products from the same domain for diversity
+       - EXCEPTION: If the best prices (lowest prices) are all from the same domain, you MAY suggest up to 4 from that domain
+       - Extract the domain from each URL (e.g., amazon.de, mercadolivre.com.br)
+
+    2. PRIORITIZATION ORDER:
+       a) **CATEGORY COHERENCE** (ABSOLUTE PRIORITY - Never violate this)
+       b) **BEST PRICES** (If available in search results)
+       c) Specialized eco-friendly/sustainable stores
+       d) Domain diversity (max 2 per domain, unless all best prices are from same domain)
+
+    3. DIVERSITY EXAMPLES:
+       ✓ IDEAL: 1 from amazon.de + 1 from ebay.de + 1 from avocadostore.de + 1 from waschbaer.de
+       ✓ GOOD: 2 from amazon.de + 1 from otto.de + 1 from mediamarkt.de
+       ✓ ACCEPTABLE: 4 from amazon.de (ONLY if they are the 4 best prices AND same category)
+       ✗ BAD: 4 from amazon.de when better prices exist on other domains
+       ✗ TERRIBLE: Suggesting products from different categories (NEVER DO THIS)
+
+    4. DECISION TREE:
+       - Are there 4+ products from the SAME CATEGORY in search results?
+         → YES: Prioritize best prices, then diversity
+         → NO: Return fewer alternatives (even 0), DO NOT mix categories
+
+    5. CATEGORY COHERENCE > EVERYTHING ELSE:
+       - It's better to return 0 alternatives than to suggest wrong category
+       - It's better to return 4 from same domain than to mix categories
+       - NEVER sacrifice category coherence for diversity or price
+      - If you cannot find 4 products with domain diversity, it's acceptable to have duplicates
+      - But you MUST prioritize diversity first
+      - Only use the same domain for 3+ products if absolutely no other options exist
+
+    5. DOMAIN EXTRACTION:
+      - Domain = the main website (e.g., "amazon.de" from "https://www.amazon.de/dp/B123")
+      - Subdomains count as same domain (e.g., "www.amazon.de" = "amazon.de")
+      - Different country TLDs are different domains (e.g., "amazon.de" ≠ "amazon.com")
+
+    ═══════════════════════════════════════════════════════════════
+    VALIDATION RULES (MANDATORY):
+    ═══════════════════════════════════════════════════════════════
+
+    1. Alternatives MUST be the SAME product type as the original
+    2. You MUST provide AT LEAST 4 sustainable alternatives (REQUIRED)
+    3. Each alternative MUST have sustainability_score >= 70
+    4. Use ONLY products from the "REAL PRODUCTS FOUND" list
+    5. Use ONLY exact URLs from the search results
+    6. ALL URLs must be from stores in ${userCountry}
+    7. MAXIMUM 2 alternatives per domain (prioritize diversity)
+    8. If you cannot find 4 valid alternatives, review the list again more carefully
+
+    ═══════════════════════════════════════════════════════════════
+    REQUIRED JSON RESPONSE FORMAT:
+    ═══════════════════════════════════════════════════════════════
+
+    {
+      "originalProduct": {
+        "name": "${productName}",
+        "category": "${category}",
+        "sustainability_score": ${scoredProduct.score.finalScore},
+        "summary": "<analysis in detected language>",
+        "environmental_impact": {
+          "carbon_footprint": "<assessment>",
+          "water_usage": "<assessment>",
+          "recyclability": "<assessment>",
+          "toxicity": "<assessment>"
+        },
+        "strengths": ["<strength in detected language>", "<strength in detected language>"],
+        "weaknesses": ["<weakness in detected language>", "<weakness in detected language>"],
+        "certifications_found": ["<certifications>"],
+        "recommendations": ["<recommendation in detected language>", "<recommendation in detected language>"]
+      },
+      "alternatives": [
+        {
+          "name": "<product name from search results>",
+          "description": "<clear description in detected language>",
+          "benefits": "<why more sustainable, in detected language>",
+          "sustainability_score": <number 70-100>,
+          "where_to_buy": "<store names from search results>",
+          "certifications": ["<relevant certifications>"],
+          "product_url": "<EXACT URL from REAL PRODUCTS FOUND list>"
+        }
+      ]
+    }
+
+    ═══════════════════════════════════════════════════════════════
+    CRITICAL: ALTERNATIVES ARRAY RULES
+    ═══════════════════════════════════════════════════════════════
+
+    1. ONLY REAL PRODUCTS:
+       - The "alternatives" array should contain ONLY real, specific products from the search results
+       - DO NOT include generic placeholders like "Search more sustainable alternatives"
+       - DO NOT include incomplete objects or fallback suggestions
+       - Each object MUST be a real product with a real URL from Tavily results
+
+    2. ARRAY SIZE:
+       - Return 0 to 4 real products ONLY
+       - If you find only 2 real products, return array with 2 items
+       - If you find 0 real products, return empty array: []
+       - DO NOT pad the array to reach 4 items with generic suggestions
+
+    3. FRONTEND WILL HANDLE FALLBACK:
+       - If you return fewer than 4 alternatives, the frontend will add a "Search on Google" button
+       - Your job is ONLY to return real, validated products
+       - Let the frontend handle the user experience for missing alternatives
+
+    ═══════════════════════════════════════════════════════════════
+    FINAL REMINDERS:
+    ═══════════════════════════════════════════════════════════════
+
+    1. RESPOND ENTIRELY in the detected language from the product name
+    2. Use ONLY URLs from the "REAL PRODUCTS FOUND" list above
+    3. Return 0-4 REAL products only (no placeholders or generic suggestions)
+    4. RETURN ONLY VALID JSON - NO MARKDOWN, NO COMMENTS
+
+    Begin analysis now.`;
+
+  try {
+    const completion = await groq.chat.completions.create({
+      messages: [
+        {
+          role: "system",
+          content:
+            `You are a sustainability expert. CRITICAL RULES:
+1. Alternatives MUST match the exact product type "${productType}"
+2. Check EACH alternative name contains "${productType}" before adding it
+3. If unsure, DO NOT include the alternative
+4. Return valid JSON only - no markdown, no comments
+5. Quality over quantity - better 0 alternatives than wrong alternatives`,
+        },
+        { role: "user", content: prompt },
+      ],
+      model: config.groq.defaultModel,
+      temperature: config.groq.operations.analysis.temperature,
+      max_tokens: config.groq.operations.analysis.maxTokens,
+      response_format: { type: "json_object" },
+    });
+
+    const content = completion.choices[0]?.message?.content;
+    if (!content) throw new Error("No response from Groq");
+
+    const result = JSON.parse(content) as GroqAnalysisResult;
+
+    console.log("🤖 [GROQ] Alternatives received:", {
+      count: result.alternatives?.length || 0,
+      withUrls: (result.alternatives || []).filter((a) => a.product_url).length,
+    });
+
+    const validatedAlternatives = (result.alternatives || [])
+      .map((alt) => {
+        if (alt?.product_url && typeof alt.product_url === "string") {
+          // ✅ STRICT: Check if URL exists in Tavily results (EXACT match only)
+          const urlExists = validUrls.some(
+            (validUrl) => validUrl === alt.product_url
+          );
+
+          if (!urlExists) {
+            console.log(
+              `⚠️ [VALIDATION] URL not in Tavily results (exact match required), removed: ${alt.product_url}`
+            );
+            alt.product_url = null;
+            return alt;
+          }
+
+          // ✅ NEW: Verify URL is from user's country
+          try {
+            const urlObj = new URL(alt.product_url);
+            const hostname = urlObj.hostname.toLowerCase();
+            const countryData = COUNTRY_ECOMMERCE[userCountry] || COUNTRY_ECOMMERCE["US"];
+            const allowedDomains = countryData.domains.map(d => d.toLowerCase());
+            const countryName = countryData.name.toLowerCase();
+
+            const isFromCorrectCountry = 
+              allowedDomains.some(domain => hostname.includes(domain)) ||
+              hostname.includes(countryName);
+
+            if (!isFromCorrectCountry) {
+              console.log(
+                `⚠️ [VALIDATION] URL not from ${userCountry}, removed: ${alt.product_url}`
+              );
+              alt.product_url = null;
+              return alt;
+            }
+
+            console.log(`✅ [VALIDATION] Valid URL from ${userCountry}: ${alt.product_url}`);
+          } catch (error) {
+            console.log(
+              `⚠️ [VALIDATION] Invalid URL format, removed: ${alt.product_url}`
+            );
+            alt.product_url = null;
+            return alt;
+          }
+        }
+
+        return alt;
+      })
+      .filter((alt) => alt && alt.product_url !== null)
+      .filter((alt) => {
+        if (!alt || !alt.name) {
+          return false;
+        }
+
+        const altName = (alt.name || "").toLowerCase();
+
+        if (/\b(book|guide|article|manual|course|tutorial)\b/.test(altName)) {
+          return false;
+        }
+
+        if (
+          alt.sustainability_score < config.sustainability.minAlternativeScore
+        ) {
+          return false;
+        }
+
+        return true;
+      });
+
+    // ✅ STEP 1: Validate category coherence (CRITICAL - prevents cross-category pollution)
+    const coherentAlternatives = validateCategoryCoherence(
+      validatedAlternatives,
+      category,
+      categoryData,
+      productType
+    );
+
+    // ✅ STEP 2: Enforce domain diversity (reorder for variety)
+    const finalAlternatives = enforceDomainDiversity(coherentAlternatives);
+
+    console.log(`📊 [FINAL] Returning ${finalAlternatives.length} real product alternatives`);
+    if (finalAlternatives.length < 4) {
+      console.log(`ℹ️ [INFO] Fewer than 4 alternatives found - frontend will add "Search on Google" button`);
+    }
+
+    // Set final alternatives
+    result.alternatives = finalAlternatives;
+
+    // ✅ Score e textos do produto original vêm do pipeline determinístico
+    const { score, texts } = scoredProduct;
+    const llmOriginal = result.originalProduct || ({} as OriginalProduct);
+
+    result.originalProduct = applyScoreToOriginalProduct(
+      {
+        ...llmOriginal,
+        name: productName,
+        category,
+        summary: texts.summary || llmOriginal.summary,
+        strengths: texts.strengths || llmOriginal.strengths || [],
+        weaknesses: texts.weaknesses || llmOriginal.weaknesses || [],
+        recommendations: texts.recommendations || llmOriginal.recommendations || [],
+      },
+      score
+    );
+
+    console.log("✅ [FINAL] Validated alternatives:", {
+      count: finalAlternatives.length,
+      urls: finalAlternatives.map((a) => a.product_url),
+    });
+
+    return result;
+  } catch (error) {
+    console.error("❌ [GROQ] Error:", error);
+    throw error;
+  }
+}
+
+export type { AnalysisRequest, AnalysisResponse, ProductInfo };
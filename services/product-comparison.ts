@@ -0,0 +1,141 @@
+// services/product-comparison.ts
+import type { SustainabilityScore } from './scoring-engine';
+
+export interface ComparedProduct {
+  name: string;
+  /** null quando o produto não pôde ser pontuado: fica fora do ranking */
+  score: SustainabilityScore | null;
+}
+
+export interface ComparisonMatrixRow {
+  criterion: string;
+  weight: number;
+  /** Score de cada produto, na ordem da request (null = sem evidência ou sem score) */
+  scores: Array<number | null>;
+  /** Índices dos produtos com o maior score no critério */
+  leaders: number[];
+}
+
+export interface DecidingCriterion {
+  criterion: string;
+  weight: number;
+  winnerScore: number;
+  runnerUpScore: number;
+  /** Diferença de score × peso: quanto o critério pesou na decisão */
+  weightedGap: number;
+}
+
+export interface ComparisonRanking {
+  rank: number;
+  index: number;
+  name: string;
+  finalScore: number;
+  classification: SustainabilityScore['classification'];
+  dataCoverage: number;
+}
+
+export interface ProductComparison {
+  matrix: ComparisonMatrixRow[];
+  ranking: ComparisonRanking[];
+  recommendation: {
+    index: number;
+    name: string;
+    /** Pontos à frente do segundo colocado */
+    margin: number;
+    /** false quando as bandas de confiança do 1º e do 2º se sobrepõem */
+    clearWinner: boolean;
+    decidingCriteria: DecidingCriterion[];
+  };
+}
+
+const MAX_DECIDING_CRITERIA = 3;
+
+/**
+ * Categoria comum da comparação: a mais votada entre as categorias
+ * detectadas; empate fica com a do primeiro produto.
+ */
+export function chooseSharedCategory(categories: string[]): string {
+  const votes = new Map<string, number>();
+  categories.forEach((category) => votes.set(category, (votes.get(category) || 0) + 1));
+
+  let best = categories[0];
+  votes.forEach((count, category) => {
+    if (count > (votes.get(best) || 0)) best = category;
+  });
+  return best;
+}
+
+/**
+ * Matriz critério × produto, ranking pelo score final (cobertura de
+ * evidência desempata) e os critérios que decidiram entre o 1º e o 2º.
+ * Produtos sem score mantêm o índice, com null na matriz e fora do ranking.
+ */
+export function buildComparison(products: ComparedProduct[]): ProductComparison {
+  const scored = products.flatMap((product, index) =>
+    product.score ? [{ index, name: product.name, score: product.score }] : [],
+  );
+  if (scored.length < 2) {
+    throw new Error('At least two scored products are required for a comparison');
+  }
+
+  const criteria = Object.keys(scored[0].score.breakdown);
+
+  const matrix: ComparisonMatrixRow[] = criteria.map((criterion) => {
+    const scores = products.map((product) => product.score?.breakdown[criterion]?.score ?? null);
+    const known = scores.filter((score): score is number => score !== null);
+    const top = known.length > 0 ? Math.max(...known) : null;
+
+    return {
+      criterion,
+      weight: scored[0].score.breakdown[criterion].weight,
+      scores,
+      leaders: top === null ? [] : scores.flatMap((score, index) => (score === top ? [index] : [])),
+    };
+  });
+
+  const ranking: ComparisonRanking[] = scored
+    .map(({ index, name, score }) => ({
+      index,
+      name,
+      finalScore: score.finalScore,
+      classification: score.classification,
+      dataCoverage: score.dataCoverage,
+    }))
+    .sort((a, b) => b.finalScore - a.finalScore || b.dataCoverage - a.dataCoverage || a.index - b.index)
+    .map((entry, position) => ({ rank: position + 1, ...entry }));
+
+  // O ranking só tem produtos com score
+  const winner = products[ranking[0].index].score as SustainabilityScore;
+  const runnerUp = products[ranking[1].index].score as SustainabilityScore;
+
+  // Só critérios com evidência nos dois produtos e vantagem do vencedor
+  const decidingCriteria: DecidingCriterion[] = matrix
+    .map((row) => {
+      const winnerScore = row.scores[ranking[0].index];
+      const runnerUpScore = row.scores[ranking[1].index];
+      if (winnerScore === null || runnerUpScore === null) return null;
+
+      return {
+        criterion: row.criterion,
+        weight: row.weight,
+        winnerScore,
+        runnerUpScore,
+        weightedGap: Math.round((winnerScore - runnerUpScore) * row.weight * 100) / 100,
+      };
+    })
+    .filter((row): row is DecidingCriterion => row !== null && row.weightedGap > 0)
+    .sort((a, b) => b.weightedGap - a.weightedGap)
+    .slice(0, MAX_DECIDING_CRITERIA);
+
+  return {
+    matrix,
+    ranking,
+    recommendation: {
+      index: ranking[0].index,
+      name: ranking[0].name,
+      margin: winner.finalScore - runnerUp.finalScore,
+      clearWinner: winner.confidenceBand.low > runnerUp.confidenceBand.high,
+      decidingCriteria,
+    },
+  };
+}
@@ -0,0 +1,408 @@
+// services/report-export.ts
+import alternativesData from '../data/alternatives.json';
+import type { AlternativesData } from '../types';
+import type { CertificationAssessment } from './certification-registry';
+import type { CartSummary } from './batch-analysis';
+import type { ConfidenceBand, MissedTarget, ScoreBreakdown, SustainabilityScore } from './scoring-engine';
+
+export type ExportFormat = 'csv' | 'jsonld' | 'html';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'jsonld', 'html'];
+
+/** O que a exportação usa de uma resposta do /api/analyze-product */
+export interface ExportableAnalysis {
+  productInfo?: { productName: string; pageUrl?: string };
+  category?: string;
+  originalProduct?: {
+    name: string;
+    category?: string;
+    sustainability_score: number;
+    classification?: SustainabilityScore['classification'];
+    breakdown?: ScoreBreakdown;
+    missed_targets?: MissedTarget[];
+    data_coverage?: number;
+    confidence_band?: ConfidenceBand;
+    summary?: string;
+    certifications_found?: string[];
+    certification_check?: CertificationAssessment;
+  };
+  alternatives?: Array<{
+    name: string;
+    sustainability_score: number;
+    where_to_buy?: string;
+    product_url?: string | null;
+    certifications?: string[];
+  }>;
+  timestamp?: string;
+  _meta?: { kbVersion?: string };
+}
+
+export interface ExportDocument {
+  contentType: string;
+  extension: string;
+  body: string;
+}
+
+const currentKbVersion = (alternativesData as unknown as AlternativesData).version;
+const categoryNames: Record<string, string> = Object.fromEntries(
+  Object.entries((alternativesData as unknown as AlternativesData).categories).map(([key, data]) => [
+    key,
+    data.name,
+  ]),
+);
+
+const getKbVersion = (analysis: ExportableAnalysis) => analysis._meta?.kbVersion || currentKbVersion;
+const getCategory = (analysis: ExportableAnalysis) =>
+  analysis.originalProduct?.category || analysis.category || '';
+const getProductName = (analysis: ExportableAnalysis) =>
+  analysis.originalProduct?.name || analysis.productInfo?.productName || '';
+
+// ===== CSV =====
+
+const CSV_COLUMNS = [
+  'product_name',
+  'category',
+  'sustainability_score',
+  'classification',
+  'confidence_low',
+  'confidence_high',
+  'data_coverage',
+  'criteria',
+  'certifications',
+  'alternatives',
+  'best_alternative_score',
+  'kb_version',
+  'analyzed_at',
+  'page_url',
+];
+
+// Planilhas executam células que começam com = + - @ (ou tab/CR) como fórmula
+const CSV_FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCsv(value: unknown): string {
+  const raw = value === null || value === undefined ? '' : String(value);
+  const text = CSV_FORMULA_PREFIX.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Uma linha por produto. Os critérios variam por categoria, então vão numa
+ * coluna só: `criterio=score` separados por `;` (`unknown` sem evidência).
+ */
+export function toCsv(analyses: ExportableAnalysis[]): string {
+  const rows = analyses.map((analysis) => {
+    const original = analysis.originalProduct;
+    const alternatives = analysis.alternatives || [];
+    const criteria = Object.entries(original?.breakdown || {})
+      .map(([criterion, data]) => `${criterion}=${data.score ?? 'unknown'}`)
+      .join(';');
+
+    return [
+      getProductName(analysis),
+      getCategory(analysis),
+      original?.sustainability_score,
+      original?.classification,
+      original?.confidence_band?.low,
+      original?.confidence_band?.high,
+      original?.data_coverage,
+      criteria,
+      (original?.certifications_found || []).join(';'),
+      alternatives.map((alternative) => alternative.name).join(' | '),
+      alternatives.length > 0
+        ? Math.max(...alternatives.map((alternative) => alternative.sustainability_score))
+        : '',
+      getKbVersion(analysis),
+      analysis.timestamp,
+      analysis.productInfo?.pageUrl,
+    ]
+      .map(escapeCsv)
+      .join(',');
+  });
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
+
+// ===== JSON-LD (schema.org) =====
+
+function propertyValue(propertyID: string, name: string, value: unknown, extra: Record<string, unknown> = {}) {
+  return { '@type': 'PropertyValue', propertyID, name, value, ...extra };
+}
+
+/**
+ * `Product` do schema.org com o score e cada critério em `additionalProperty`,
+ * selos em `hasCertification` e alternativas em `isSimilarTo`.
+ */
+export function toJsonLdProduct(analysis: ExportableAnalysis): Record<string, unknown> {
+  const original = analysis.originalProduct;
+  const category = getCategory(analysis);
+
+  const properties = [
+    propertyValue('sustainabilityScore', 'Sustainability score', original?.sustainability_score, {
+      minValue: 0,
+      maxValue: 100,
+    }),
+    propertyValue('sustainabilityClassification', 'Sustainability classification', original?.classification),
+    propertyValue('dataCoverage', 'Evidence coverage (%)', original?.data_coverage, { unitText: 'percent' }),
+    ...(original?.confidence_band
+      ? [
+          propertyValue('confidenceBand', 'Score confidence band', original.sustainability_score, {
+            minValue: original.confidence_band.low,
+            maxValue: original.confidence_band.high,
+          }),
+        ]
+      : []),
+    ...Object.entries(original?.breakdown || {}).map(([criterion, data]) =>
+      propertyValue(`criterion:${criterion}`, criterion, data.score, {
+        minValue: 0,
+        maxValue: 100,
+        description: `weight ${data.weight}, ${data.coverage}% of indicators documented`,
+      }),
+    ),
+    propertyValue('knowledgeBaseVersion', 'SICOSI knowledge-base version', getKbVersion(analysis)),
+  ].filter((property) => property.value !== undefined);
+
+  const recognized = original?.certification_check?.recognized;
+  const certifications = recognized
+    ? recognized.map((certification) => ({
+        '@type': 'Certification',
+        name: certification.name,
+        issuedBy: { '@type': 'Organization', name: certification.issuer },
+      }))
+    : (original?.certifications_found || []).map((name) => ({ '@type': 'Certification', name }));
+
+  return {
+    '@context': 'https://schema.org',
+    '@type': 'Product',
+    name: getProductName(analysis),
+    ...(analysis.productInfo?.pageUrl ? { url: analysis.productInfo.pageUrl } : {}),
+    category: categoryNames[category] || category,
+    ...(original?.summary ? { description: original.summary } : {}),
+    additionalProperty: properties,
+    hasCertification: certifications,
+    isSimilarTo: (analysis.alternatives || []).map((alternative) => ({
+      '@type': 'Product',
+      name: alternative.name,
+      ...(alternative.product_url ? { url: alternative.product_url } : {}),
+      additionalProperty: [
+        propertyValue('sustainabilityScore', 'Sustainability score', alternative.sustainability_score, {
+          minValue: 0,
+          maxValue: 100,
+        }),
+      ],
+    })),
+    ...(analysis.timestamp ? { dateModified: analysis.timestamp } : {}),
+  };
+}
+
+/**
+ * Um produto vira o próprio objeto; vários vão num `@graph`.
+ */
+export function toJsonLd(analyses: ExportableAnalysis[]): Record<string, unknown> {
+  if (analyses.length === 1) {
+    return toJsonLdProduct(analyses[0]);
+  }
+
+  return {
+    '@context': 'https://schema.org',
+    '@graph': analyses.map((analysis) => {
+      const { '@context': _context, ...product } = toJsonLdProduct(analysis);
+      return product;
+    }),
+  };
+}
+
+// ===== HTML imprimível =====
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/** Só URLs http(s) viram link: javascript:, data: etc. ficam como texto */
+function getSafeHref(url: string | null | undefined): string | null {
+  if (!url) return null;
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'http:' || protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+const REPORT_STYLES = `
+  body { font-family: Helvetica, Arial, sans-serif; color: #1f2933; margin: 32px; font-size: 13px; }
+  h1 { font-size: 22px; margin-bottom: 4px; }
+  h2 { font-size: 18px; margin: 0 0 8px; }
+  h3 { font-size: 14px; margin: 16px 0 6px; }
+  .meta { color: #616e7c; margin-bottom: 24px; }
+  .product { border-top: 2px solid #3e7c17; padding-top: 16px; margin-top: 24px; page-break-inside: avoid; }
+  .score { font-size: 28px; font-weight: bold; color: #3e7c17; }
+  table { border-collapse: collapse; width: 100%; margin-top: 4px; }
+  th, td { border: 1px solid #cbd2d9; padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: #f5f7fa; }
+  .muted { color: #7b8794; }
+  @media print { body { margin: 12mm; } .product { page-break-before: always; } .product:first-of-type { page-break-before: auto; } }
+`;
+
+function renderBreakdown(breakdown: ScoreBreakdown | undefined): string {
+  const rows = Object.entries(breakdown || {})
+    .map(
+      ([criterion, data]) => `<tr>
+        <td>${escapeHtml(criterion)}</td>
+        <td>${escapeHtml(data.weight)}</td>
+        <td>${data.score === null ? '<span class="muted">unknown</span>' : escapeHtml(data.score)}</td>
+        <td>${escapeHtml(data.coverage)}%</td>
+        <td>${data.certificationBonus ? `+${escapeHtml(data.certificationBonus)} (${escapeHtml(data.certifications.join(', '))})` : ''}</td>
+      </tr>`,
+    )
+    .join('');
+
+  return rows
+    ? `<table><thead><tr><th>Criterion</th><th>Weight</th><th>Score</th><th>Evidence coverage</th><th>Certification bonus</th></tr></thead><tbody>${rows}</tbody></table>`
+    : '<p class="muted">No criterion breakdown available.</p>';
+}
+
+function renderCertifications(original: ExportableAnalysis['originalProduct']): string {
+  const check = original?.certification_check;
+  if (!check) {
+    const found = original?.certifications_found || [];
+    return found.length > 0
+      ? `<ul>${found.map((name) => `<li>${escapeHtml(name)}</li>`).join('')}</ul>`
+      : '<p class="muted">No certifications found.</p>';
+  }
+
+  const items = [
+    ...check.recognized.map(
+      (certification) =>
+        `<li>${escapeHtml(certification.name)} — ${escapeHtml(certification.issuer)} (${escapeHtml(certification.type)})</li>`,
+    ),
+    ...check.selfDeclared.map(
+      (certification) => `<li>${escapeHtml(certification.claimed)} — <em>self-declared, not credited</em></li>`,
+    ),
+    ...check.unrecognized.map((label) => `<li>${escapeHtml(label)} — <em>not in the certification registry</em></li>`),
+  ];
+
+  return items.length > 0 ? `<ul>${items.join('')}</ul>` : '<p class="muted">No certifications found.</p>';
+}
+
+function renderAlternatives(alternatives: ExportableAnalysis['alternatives']): string {
+  if (!alternatives || alternatives.length === 0) {
+    return '<p class="muted">No alternatives suggested.</p>';
+  }
+
+  const rows = alternatives
+    .map((alternative) => {
+      const href = getSafeHref(alternative.product_url);
+      return `<tr>
+        <td>${href ? `<a href="${escapeHtml(href)}">${escapeHtml(alternative.name)}</a>` : escapeHtml(alternative.name)}</td>
+        <td>${escapeHtml(alternative.sustainability_score)}</td>
+        <td>${escapeHtml(alternative.where_to_buy)}</td>
+        <td>${escapeHtml((alternative.certifications || []).join(', '))}</td>
+      </tr>`;
+    })
+    .join('');
+
+  return `<table><thead><tr><th>Alternative</th><th>Score</th><th>Where to buy</th><th>Certifications</th></tr></thead><tbody>${rows}</tbody></table>`;
+}
+
+function renderProduct(analysis: ExportableAnalysis): string {
+  const original = analysis.originalProduct;
+  const category = getCategory(analysis);
+  const band = original?.confidence_band;
+  const missed = original?.missed_targets || [];
+  const pageHref = getSafeHref(analysis.productInfo?.pageUrl);
+
+  return `<section class="product">
+    <h2>${escapeHtml(getProductName(analysis))}</h2>
+    <div class="meta">
+      Category: ${escapeHtml(categoryNames[category] || category)} ·
+      Knowledge base v${escapeHtml(getKbVersion(analysis))} ·
+      Analyzed ${escapeHtml(analysis.timestamp || 'n/a')}
+      ${pageHref ? `· <a href="${escapeHtml(pageHref)}">product page</a>` : ''}
+    </div>
+    <div><span class="score">${escapeHtml(original?.sustainability_score ?? 'n/a')}/100</span>
+      ${escapeHtml(original?.classification || '')}
+      ${band ? `<span class="muted">(range ${escapeHtml(band.low)}–${escapeHtml(band.high)}, ${escapeHtml(original?.data_coverage ?? 0)}% evidence coverage)</span>` : ''}
+    </div>
+    ${original?.summary ? `<p>${escapeHtml(original.summary)}</p>` : ''}
+    <h3>Criterion breakdown</h3>
+    ${renderBreakdown(original?.breakdown)}
+    ${
+      missed.length > 0
+        ? `<h3>Targets not met</h3><ul>${missed
+            .map((target) => `<li>${escapeHtml(target.criterion)}: ${escapeHtml(target.target || target.name)}</li>`)
+            .join('')}</ul>`
+        : ''
+    }
+    <h3>Certifications</h3>
+    ${renderCertifications(original)}
+    <h3>Alternatives</h3>
+    ${renderAlternatives(analysis.alternatives)}
+  </section>`;
+}
+
+function renderCartSummary(summary: CartSummary): string {
+  return `<section>
+    <h2>Cart summary</h2>
+    <table><tbody>
+      <tr><th>Weighted score</th><td>${escapeHtml(summary.weightedScore ?? 'n/a')} (${escapeHtml(summary.classification || 'n/a')})</td></tr>
+      <tr><th>Average score</th><td>${escapeHtml(summary.averageScore ?? 'n/a')}</td></tr>
+      <tr><th>Items analyzed</th><td>${escapeHtml(summary.completed)} of ${escapeHtml(summary.totalItems)} (${escapeHtml(summary.failed)} failed)</td></tr>
+    </tbody></table>
+  </section>`;
+}
+
+/**
+ * Relatório HTML pronto para imprimir/salvar em PDF (CSS inline, sem
+ * recursos externos), para anexar à decisão de compra.
+ */
+export function toHtmlReport(
+  analyses: ExportableAnalysis[],
+  { title = 'SICOSI Sustainability Report', summary }: { title?: string; summary?: CartSummary } = {},
+): string {
+  const kbVersions = Array.from(new Set(analyses.map(getKbVersion)));
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<div class="meta">Generated ${escapeHtml(new Date().toISOString())} · ${analyses.length} product(s) · Knowledge base ${kbVersions
+    .map((version) => `v${escapeHtml(version)}`)
+    .join(', ')}</div>
+${summary ? renderCartSummary(summary) : ''}
+${analyses.map(renderProduct).join('\n')}
+<p class="muted">Scores are computed deterministically from the criteria weights of the SICOSI knowledge base; criteria without evidence are reported as unknown, not as poor performance.</p>
+</body>
+</html>
+`;
+}
+
+export function renderExport(
+  format: ExportFormat,
+  analyses: ExportableAnalysis[],
+  options: { title?: string; summary?: CartSummary } = {},
+): ExportDocument {
+  switch (format) {
+    case 'csv':
+      return { contentType: 'text/csv; charset=utf-8', extension: 'csv', body: toCsv(analyses) };
+    case 'jsonld':
+      return {
+        contentType: 'application/ld+json; charset=utf-8',
+        extension: 'jsonld',
+        body: JSON.stringify(toJsonLd(analyses), null, 2),
+      };
+    case 'html':
+      return { contentType: 'text/html; charset=utf-8', extension: 'html', body: toHtmlReport(analyses, options) };
+    default:
+      throw new Error(`Unsupported export format: ${format}`);
+  }
+}
@@ -1,8 +1,56 @@
-import { AlternativesConfig, CategoryConfig } from '../types';
+import alternativesData from '../data/alternatives.json';
+import type {
+  AlternativesData,
+  CategoryData,
+  CertificationRegistry,
+  SustainabilityIndicator,
+} from '../types';
+import {
+  CertificationAssessment,
+  assessCertifications,
+  getCriterionCredit,
+} from './certification-registry';
 
-interface CriterionEvaluation {
-  score: number;
-  evidence: string[];
+/**
+ * Uma evidência que sustenta o score de um critério, ligada à fonte
+ * (resultado do Tavily) de onde foi extraída.
+ */
+export interface EvidenceRecord {
+  text: string;
+  sourceUrl: string | null;
+  indicatorId: string | null;
+}
+
+export type IndicatorStatus = 'met' | 'unmet' | 'unknown';
+
+/**
+ * Avaliação de um indicador (alternatives.json) contra o seu `target`.
+ */
+export interface IndicatorEvaluation {
+  status: IndicatorStatus;
+  evidence: EvidenceRecord[];
+}
+
+export interface CriterionEvaluation {
+  /** Score direto do critério; só usado quando não há avaliação por indicador */
+  score?: number;
+  evidence: EvidenceRecord[];
+  indicators?: Record<string, IndicatorEvaluation>;
+}
+
+export interface IndicatorResult {
+  id: string;
+  name: string;
+  target: string;
+  status: IndicatorStatus;
+  evidence: EvidenceRecord[];
+}
+
+export interface MissedTarget {
+  criterion: string;
+  indicatorId: string;
+  name: string;
+  target: string;
 }
 
 export interface ProductFacts {
@@ -11,18 +59,38 @@ export interface ProductFacts {
   origin?: string;
 }
 
-interface ScoreBreakdown {
+export interface ScoreBreakdown {
   [criterionName: string]: {
-    score: number;
+    /** null quando não há evidência nenhuma para o critério */
+    score: number | null;
+    status: 'scored' | 'unknown';
     weight: number;
     weighted: number;
+    /** Fração (0-100) dos indicadores do critério com status conhecido */
+    coverage: number;
+    evidence: EvidenceRecord[];
+    indicators: IndicatorResult[];
+    /** Pontos somados por certificações reconhecidas (já incluídos em `score`) */
+    certificationBonus: number;
+    certifications: string[];
   };
 }
 
+export interface ConfidenceBand {
+  low: number;
+  high: number;
+  margin: number;
+}
+
 export interface SustainabilityScore {
   finalScore: number;
   breakdown: ScoreBreakdown;
-  classification: 'excellent' | 'good' | 'acceptable' | 'poor';
+  classification: 'excellent' | 'good' | 'acceptable' | 'poor' | 'insufficient_data';
+  missedTargets: MissedTarget[];
+  /** Percentual (0-100) do peso total coberto por evidência */
+  dataCoverage: number;
+  confidenceBand: ConfidenceBand;
+  certifications: CertificationAssessment;
 }
 
 const DEFAULT_WEIGHTS: Record<string, number> = {
@@ -33,17 +101,61 @@ const DEFAULT_WEIGHTS: Record<string, number> = {
   materials: 0.2,
 };
 
-function evaluateCompliance(productFacts: ProductFacts, targets: string[]): number {
-  let matches = 0;
+// Pontos de cada status conhecido na agregação indicador → critério.
+// `unknown` não entra na média: falta de evidência não é mau desempenho.
+const INDICATOR_STATUS_POINTS: Record<Exclude<IndicatorStatus, 'unknown'>, number> = {
+  met: 100,
+  unmet: 0,
+};
+
+const INDICATOR_STATUSES: IndicatorStatus[] = ['met', 'unmet', 'unknown'];
+
+// Sem cobertura nenhuma o score real pode estar em qualquer ponto de 0-100
+const MAX_CONFIDENCE_MARGIN = 50;
+const NEUTRAL_SCORE = 50;
+// Teto do bônus de certificações por critério
+const MAX_CERTIFICATION_BONUS = 30;
 
-  targets.forEach((target) => {
-    const normalizedTarget = (target || '').toLowerCase();
-    if (normalizedTarget.includes('recycl') && (productFacts as any).recyclable) matches++;
-    if (normalizedTarget.includes('organic') && (productFacts as any).materials?.includes?.('organic')) matches++;
-    if (normalizedTarget.includes('energy') && (productFacts as any).energy_efficient) matches++;
-  });
+/**
+ * Avalia cada indicador configurado do critério usando os status extraídos.
+ * Indicadores sem avaliação ficam como `unknown`.
+ */
+function evaluateIndicators(
+  indicators: SustainabilityIndicator[],
+  evaluation: CriterionEvaluation | undefined,
+): IndicatorResult[] {
+  return indicators
+    .filter((indicator) => indicator.id)
+    .map((indicator) => {
+      const indicatorId = indicator.id as string;
+      const indicatorFacts = evaluation?.indicators?.[indicatorId];
+      const status: IndicatorStatus =
+        indicatorFacts && INDICATOR_STATUSES.includes(indicatorFacts.status)
+          ? indicatorFacts.status
+          : 'unknown';
 
-  return targets.length > 0 ? matches / targets.length : 0;
+      return {
+        id: indicatorId,
+        name: indicator.name || indicatorId,
+        target: indicator.target || indicator.description || '',
+        status,
+        evidence: Array.isArray(indicatorFacts?.evidence) ? indicatorFacts.evidence : [],
+      };
+    });
+}
+
+/**
+ * Classificação baseada no evaluation_methodology
+ */
+export function classifyScore(
+  finalScore: number,
+  dataCoverage: number = 100,
+): SustainabilityScore['classification'] {
+  if (dataCoverage === 0) return 'insufficient_data';
+  if (finalScore >= 85) return 'excellent';
+  if (finalScore >= 70) return 'good';
+  if (finalScore >= 50) return 'acceptable';
+  return 'poor';
 }
 
 /**
@@ -53,7 +165,10 @@ function evaluateCompliance(productFacts: ProductFacts, targets: string[]): numb
 export function calculateSustainabilityScore(
   facts: ProductFacts,
   category: string,
-  categories: AlternativesConfig['categories'] | Record<string, CategoryConfig>,
+  categories: AlternativesData['categories'] | Record<string, CategoryData> = (
+    alternativesData as unknown as AlternativesData
+  ).categories,
+  registry?: CertificationRegistry,
 ): SustainabilityScore {
   const categoryData = category ? categories[category] : undefined;
 
@@ -76,65 +191,130 @@ export function calculateSustainabilityScore(
 
   console.log(`📊 [SCORING] Using weights for category "${category}":`, weights);
 
+  const certifications = assessCertifications(facts.certifications, registry);
+  if (certifications.selfDeclared.length > 0 || certifications.unrecognized.length > 0) {
+    console.log('🏷️ [SCORING] Certifications without credit:', {
+      selfDeclared: certifications.selfDeclared.map((certification) => certification.claimed),
+      unrecognized: certifications.unrecognized,
+    });
+  }
+
   const breakdown: ScoreBreakdown = {};
+  const missedTargets: MissedTarget[] = [];
 
   let totalWeightedScore = 0;
   let totalWeight = 0;
+  let scoredWeight = 0;
+  let coveredWeight = 0;
 
   // Para cada critério de sustentabilidade
   for (const [criterionName, weight] of Object.entries(weights)) {
     const criterionData = facts[criterionName];
     const criterionConfig = categoryData?.sustainability_criteria?.[criterionName as keyof typeof criteria] as any;
 
-    const targets: string[] = [];
-    if (criterionConfig?.indicators && Array.isArray(criterionConfig.indicators)) {
-      criterionConfig.indicators.forEach((indicator: any) => {
-        if (indicator.target) {
-          targets.push(String(indicator.target).toLowerCase());
-        }
-      });
-    } else if (criterionConfig?.guidelines && Array.isArray(criterionConfig.guidelines)) {
-      criterionConfig.guidelines.forEach((g: string) => targets.push(g.toLowerCase()));
-    }
+    const evaluation =
+      typeof criterionData === 'object' && criterionData !== null && !Array.isArray(criterionData)
+        ? (criterionData as CriterionEvaluation)
+        : undefined;
 
-    let criterionScore =
-      typeof criterionData === 'object' && criterionData !== null && 'score' in criterionData
-        ? (criterionData as CriterionEvaluation).score || 0
-        : 0;
+    const configuredIndicators: SustainabilityIndicator[] = Array.isArray(criterionConfig?.indicators)
+      ? criterionConfig.indicators
+      : [];
+    const indicators = evaluateIndicators(configuredIndicators, evaluation);
 
-    if (criterionScore === 0 && targets.length > 0) {
-      const compliance = evaluateCompliance(facts, targets);
-      criterionScore = compliance * 100;
+    // Indicadores avaliados → média dos pontos dos indicadores conhecidos;
+    // senão, score direto do critério (quando informado)
+    let criterionScore: number | null = null;
+    let coverage = 0;
+    if (indicators.length > 0 && evaluation?.indicators) {
+      const known = indicators.filter((indicator) => indicator.status !== 'unknown');
+      coverage = known.length / indicators.length;
+
+      if (known.length > 0) {
+        const points = known.reduce(
+          (sum, indicator) =>
+            sum + INDICATOR_STATUS_POINTS[indicator.status as keyof typeof INDICATOR_STATUS_POINTS],
+          0,
+        );
+        criterionScore = Math.round(points / known.length);
+      }
+    } else if (typeof evaluation?.score === 'number') {
+      criterionScore = evaluation.score;
+      coverage = 1;
+    }
+
+    // Certificações reconhecidas comprovam o critério: bônus limitado,
+    // partindo do neutro quando não havia evidência; o critério passa a
+    // contar como coberto (senão um score só de selos viraria insufficient_data)
+    const creditedBy = certifications.recognized.filter(
+      (certification) => getCriterionCredit(certification.id, criterionName, registry) > 0,
+    );
+    const certificationBonus = Math.min(
+      MAX_CERTIFICATION_BONUS,
+      creditedBy.reduce(
+        (sum, certification) => sum + getCriterionCredit(certification.id, criterionName, registry),
+        0,
+      ),
+    );
+    if (certificationBonus > 0) {
+      criterionScore = Math.min(100, (criterionScore ?? NEUTRAL_SCORE) + certificationBonus);
+      coverage = 1;
     }
 
-    const weightedScore = criterionScore * weight;
+    indicators
+      .filter((indicator) => indicator.status === 'unmet')
+      .forEach((indicator) =>
+        missedTargets.push({
+          criterion: criterionName,
+          indicatorId: indicator.id,
+          name: indicator.name,
+          target: indicator.target,
+        }),
+      );
+
+    const weightedScore = (criterionScore ?? 0) * weight;
 
     breakdown[criterionName] = {
       score: criterionScore,
+      status: criterionScore === null ? 'unknown' : 'scored',
       weight: weight,
       weighted: weightedScore,
+      coverage: Math.round(coverage * 100),
+      evidence: Array.isArray(evaluation?.evidence) ? evaluation.evidence : [],
+      indicators,
+      certificationBonus,
+      certifications: creditedBy.map((certification) => certification.name),
     };
 
-    totalWeightedScore += weightedScore;
     totalWeight += weight;
-  }
+    coveredWeight += coverage * weight;
 
-  // Score final (0-100)
-  const finalScore = totalWeight > 0 ? Math.round(totalWeightedScore / totalWeight) : 0;
-
-  // Classificação baseada no evaluation_methodology
-  let classification: 'excellent' | 'good' | 'acceptable' | 'poor' = 'poor';
-  if (finalScore >= 85) {
-    classification = 'excellent';
-  } else if (finalScore >= 70) {
-    classification = 'good';
-  } else if (finalScore >= 50) {
-    classification = 'acceptable';
+    if (criterionScore !== null) {
+      totalWeightedScore += weightedScore;
+      scoredWeight += weight;
+    }
   }
 
+  // Score final (0-100) só sobre os critérios com evidência
+  const finalScore =
+    scoredWeight > 0 ? Math.round(totalWeightedScore / scoredWeight) : NEUTRAL_SCORE;
+
+  // Cobertura de dados e banda de confiança: quanto menos evidência, mais larga
+  const dataCoverage = totalWeight > 0 ? Math.round((coveredWeight / totalWeight) * 100) : 0;
+  const margin = Math.round(MAX_CONFIDENCE_MARGIN * (1 - dataCoverage / 100));
+  const confidenceBand: ConfidenceBand = {
+    low: Math.max(0, finalScore - margin),
+    high: Math.min(100, finalScore + margin),
+    margin,
+  };
+
   return {
     finalScore: Math.round(finalScore),
     breakdown,
-    classification,
+    classification: classifyScore(finalScore, dataCoverage),
+    missedTargets,
+    dataCoverage,
+    confidenceBand,
+    certifications,
   };
 }
@@ -0,0 +1,62 @@
+// services/search-providers/brave.ts
+import axios from 'axios';
+import config from '../../config';
+import type { ProviderSearchResult, SearchOptions, SearchProvider } from '../../types';
+
+interface BraveResponse {
+  web?: {
+    results?: Array<{
+      title: string;
+      url: string;
+      description?: string;
+    }>;
+  };
+}
+
+// Brave não tem filtro de domínio na API: usa operadores site: na query
+function buildQuery(query: string, includeDomains: string[], excludeDomains: string[]): string {
+  const include = includeDomains.length > 0
+    ? ` (${includeDomains.map((domain) => `site:${domain}`).join(' OR ')})`
+    : '';
+  const exclude = excludeDomains.map((domain) => ` -site:${domain}`).join('');
+  return `${query}${include}${exclude}`;
+}
+
+const braveProvider: SearchProvider = {
+  name: 'brave',
+
+  isConfigured() {
+    return !!config.brave.apiKey;
+  },
+
+  async search(query: string, options: SearchOptions): Promise<ProviderSearchResult> {
+    const { maxResults = 5, includeDomains = [], excludeDomains = [] } = options;
+
+    const response = await axios.get<BraveResponse>(config.brave.baseUrl, {
+      params: {
+        q: buildQuery(query, includeDomains, excludeDomains),
+        // A API aceita no máximo 20 resultados por página
+        count: Math.min(maxResults, 20)
+      },
+      headers: {
+        Accept: 'application/json',
+        'X-Subscription-Token': config.brave.apiKey
+      },
+      timeout: 10000
+    });
+
+    return {
+      answer: null,
+      results: (response.data.web?.results || []).map((result, index, all) => ({
+        title: result.title,
+        url: result.url,
+        snippet: (result.description || '').replace(/<[^>]+>/g, ''),
+        // Brave não devolve relevância: usa a posição no ranking
+        score: 1 - index / Math.max(all.length, 1)
+      })),
+      images: []
+    };
+  }
+};
+
+export default braveProvider;
@@ -0,0 +1,35 @@
+// services/search-providers/index.ts
+import config from '../../config';
+import type { SearchProvider } from '../../types';
+import tavilyProvider from './tavily';
+import braveProvider from './brave';
+
+const SEARCH_PROVIDERS: Record<string, SearchProvider> = {
+  [tavilyProvider.name]: tavilyProvider,
+  [braveProvider.name]: braveProvider
+};
+
+/**
+ * Registra um provedor adicional (ex: fixtures locais em testes).
+ */
+export function registerSearchProvider(provider: SearchProvider): void {
+  SEARCH_PROVIDERS[provider.name] = provider;
+}
+
+/**
+ * Provedores na ordem de config.search.providers. Sem failover, só o
+ * primeiro é usado. Nomes desconhecidos são ignorados com aviso.
+ */
+export function getSearchProviders(names: string[] = config.search.providers): SearchProvider[] {
+  const providers = names
+    .map((name) => {
+      const provider = SEARCH_PROVIDERS[name];
+      if (!provider) {
+        console.warn(`⚠️ [SEARCH] Unknown search provider "${name}" in config.search.providers`);
+      }
+      return provider;
+    })
+    .filter((provider): provider is SearchProvider => !!provider);
+
+  return config.search.failover ? providers : providers.slice(0, 1);
+}
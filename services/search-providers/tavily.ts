@@ -0,0 +1,71 @@
+// services/search-providers/tavily.ts
+import axios from 'axios';
+import config from '../../config';
+import type { ProviderSearchResult, SearchOptions, SearchProvider } from '../../types';
+
+// ✅ Interface para tipar a resposta da API Tavily
+interface TavilyResponse {
+  answer?: string;
+  results?: Array<{
+    title: string;
+    url: string;
+    snippet?: string;
+    content?: string;
+    score?: number;
+  }>;
+  images?: string[];
+}
+
+export function createTavilyProvider(apiKey: string | undefined = config.tavily.apiKey): SearchProvider {
+  return {
+    name: 'tavily',
+
+    isConfigured() {
+      return !!apiKey;
+    },
+
+    async search(query: string, options: SearchOptions): Promise<ProviderSearchResult> {
+      const {
+        maxResults = 5,
+        searchDepth = 'basic',
+        includeImages = false,
+        includeAnswer = true,
+        includeDomains = [],
+        excludeDomains = []
+      } = options;
+
+      const response = await axios.post<TavilyResponse>(
+        config.tavily.baseUrl,
+        {
+          api_key: apiKey,
+          query,
+          max_results: maxResults,
+          search_depth: searchDepth,
+          include_images: includeImages,
+          include_answer: includeAnswer,
+          include_domains: includeDomains,
+          exclude_domains: excludeDomains
+        },
+        {
+          headers: { 'Content-Type': 'application/json' },
+          timeout: 10000
+        }
+      );
+
+      return {
+        answer: response.data.answer || null,
+        results: (response.data.results || []).map((result) => ({
+          title: result.title,
+          url: result.url,
+          snippet: result.snippet || result.content || '',
+          score: result.score
+        })),
+        images: response.data.images || []
+      };
+    }
+  };
+}
+
+const tavilyProvider = createTavilyProvider();
+
+export default tavilyProvider;
@@ -0,0 +1,47 @@
+// services/sse.ts
+import type { NextApiResponse } from 'next';
+
+export interface EventStream {
+  send(event: string, data: unknown): void;
+  close(): void;
+  /** true depois que o cliente desconectou ou o stream foi fechado */
+  readonly closed: boolean;
+}
+
+/**
+ * Abre uma resposta Server-Sent Events. Se o cliente desconectar, os envios
+ * seguintes são ignorados (a análise continua e vai para o cache). A
+ * desconexão vem do `close` da resposta: o da requisição dispara assim que
+ * o corpo do POST termina de ser lido.
+ */
+export function openEventStream(res: NextApiResponse): EventStream {
+  let closed = false;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    // Sem buffer de proxy: cada evento sai na hora
+    'X-Accel-Buffering': 'no',
+  });
+  res.flushHeaders?.();
+
+  res.on('close', () => {
+    closed = true;
+  });
+
+  return {
+    send(event: string, data: unknown) {
+      if (closed) return;
+      res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    },
+    close() {
+      if (closed) return;
+      closed = true;
+      res.end();
+    },
+    get closed() {
+      return closed;
+    },
+  };
+}
@@ -1,5 +1,4 @@
-import axios from 'axios';
-import config from '@/config';
+import { createTavilyProvider } from './search-providers/tavily';
 
 interface TavilyClientOptions {
   apiKey?: string;
@@ -11,27 +10,18 @@ interface TavilySearchOptions {
   searchDepth?: 'basic' | 'advanced';
 }
 
+/**
+ * Wrapper legado: delega ao provedor Tavily de services/search-providers.
+ * Prefira webSearchClient, que aplica o failover entre provedores.
+ */
 export default function tavily(options: TavilyClientOptions = {}) {
-  const apiKey = options.apiKey || config.tavily.apiKey;
-  const baseUrl = config.tavily.baseUrl;
+  const provider = createTavilyProvider(options.apiKey);
 
   return {
     async search(query: string, searchOptions: TavilySearchOptions = {}) {
       const { maxResults = 10, includeAnswer = false, searchDepth = 'basic' } = searchOptions;
 
-      const response = await axios.post(
-        baseUrl,
-        {
-          api_key: apiKey,
-          query,
-          max_results: maxResults,
-          search_depth: searchDepth,
-          include_answer: includeAnswer,
-        },
-        { headers: { 'Content-Type': 'application/json' } },
-      );
-
-      return response.data;
+      return provider.search(query, { maxResults, includeAnswer, searchDepth });
     },
   };
 }
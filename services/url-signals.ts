@@ -0,0 +1,105 @@
+// services/url-signals.ts
+
+/**
+ * URL da página como sinal de categoria: o caminho das lojas costuma
+ * trazer a árvore de departamentos (/eletrodomesticos/geladeira,
+ * /c/electronics/laptops) e o slug do produto.
+ */
+export interface UrlSignalsConfig {
+  /** Segmentos genéricos de rota que não dizem nada da categoria (dp, p, produto...) */
+  ignored_segments: string[];
+  /** Peso de um segmento mapeado, multiplicado por source_weights.url */
+  retailer_mapping_weight: number;
+  /** Por domínio da loja (vale também para subdomínios): segmento do caminho → categoria */
+  retailer_paths: Record<string, Record<string, string>>;
+}
+
+export interface UrlSignal {
+  /** Host sem "www." */
+  host: string;
+  /** Segmentos do caminho decodificados e em minúsculas, como vieram */
+  segments: string[];
+  /** Palavras dos segmentos úteis, para o score por palavras-chave */
+  text: string;
+}
+
+export interface RetailerPathMatch {
+  segment: string;
+  category: string;
+}
+
+// Extensões de página no último segmento (produto-123.html)
+const PAGE_EXTENSION = /\.(html?|aspx?|php|jsp)$/;
+
+// Códigos de produto/SKU: só dígitos, ou longos com vários dígitos (b08n5wrwnw, mlb3456789)
+function isIdentifier(word: string): boolean {
+  return /^\d+$/.test(word) || (word.length >= 8 && (word.match(/\d/g) || []).length >= 3);
+}
+
+function decodePath(path: string): string {
+  try {
+    return decodeURIComponent(path);
+  } catch {
+    return path;
+  }
+}
+
+/**
+ * Quebra a URL em segmentos e palavras. Caminhos "breadcrumb" dentro de
+ * um segmento (eletrodomesticos>geladeiras, a|b) viram segmentos também;
+ * o fragmento (#/categoria/...) entra como parte do caminho. Devolve
+ * null para URLs inválidas.
+ */
+export function parseProductUrl(pageUrl: string, ignoredSegments: string[] = []): UrlSignal | null {
+  const raw = (pageUrl || '').trim();
+  if (!raw) return null;
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(raw) ? raw : `https://${raw}`);
+  } catch {
+    return null;
+  }
+
+  const ignored = new Set(ignoredSegments.map((segment) => segment.toLowerCase()));
+  const segments = decodePath(`${url.pathname}/${url.hash.replace(/^#/, '')}`)
+    .split(/[/>|]+/)
+    .map((segment) => segment.toLowerCase().replace(PAGE_EXTENSION, '').trim())
+    .filter(Boolean);
+
+  const words = segments
+    .filter((segment) => !ignored.has(segment))
+    .flatMap((segment) => segment.split(/[\s\-_+.~,;:=]+/))
+    .filter((word) => word && !ignored.has(word) && !isIdentifier(word));
+
+  return {
+    host: url.hostname.toLowerCase().replace(/^www\./, ''),
+    segments,
+    text: words.join(' '),
+  };
+}
+
+/**
+ * Segmentos do caminho que a configuração da loja liga a uma categoria.
+ * O domínio configurado vale para o host exato e seus subdomínios
+ * (magazineluiza.com.br cobre m.magazineluiza.com.br).
+ */
+export function matchRetailerPaths(
+  signal: UrlSignal,
+  retailerPaths: UrlSignalsConfig['retailer_paths'] = {},
+): RetailerPathMatch[] {
+  const matches: RetailerPathMatch[] = [];
+
+  for (const [domain, mappings] of Object.entries(retailerPaths)) {
+    const retailer = domain.toLowerCase();
+    if (signal.host !== retailer && !signal.host.endsWith(`.${retailer}`)) continue;
+
+    for (const [segment, category] of Object.entries(mappings)) {
+      if (signal.segments.includes(segment.toLowerCase())) {
+        matches.push({ segment, category });
+      }
+    }
+  }
+
+  return matches;
+}
@@ -0,0 +1,102 @@
+import assert from 'assert';
+import config from '../config';
+import { createMemoryCache } from '../services/cache/memory';
+import {
+  buildScoreTrend,
+  createKeyValueHistoryStore,
+  getAnalysisHistory,
+  getHistoryStore,
+  getProductId,
+  recordAnalysis,
+  RecordAnalysisInput,
+} from '../services/analysis-history';
+
+const base: RecordAnalysisInput = {
+  productName: 'Escova de Dentes Bambu',
+  country: 'BR',
+  category: 'cosmetics_personal_care',
+  score: 60,
+  classification: 'acceptable',
+  confidenceBand: { low: 50, high: 70, margin: 10 },
+  dataCoverage: 80,
+  kbVersion: '1.0.0',
+  categoryHash: 'aaa',
+  model: 'llama-3.3-70b-versatile',
+  source: 'analysis',
+};
+
+async function run() {
+  assert.strictEqual(getProductId('iPhone 15 Pro (128GB)'), 'iphone-15-pro-128gb');
+  assert.strictEqual(getProductId('  Escova de Dentes BAMBU! '), 'escova-de-dentes-bambu');
+  assert.strictEqual(getProductId('Sabão Líquido'), getProductId('sabao liquido'));
+
+  const store = createKeyValueHistoryStore(createMemoryCache(10));
+  const productId = getProductId(base.productName);
+
+  await recordAnalysis({ ...base, timestamp: '2026-01-01T00:00:00.000Z' }, store);
+  // Same KB, better score: the product improved
+  await recordAnalysis({ ...base, score: 72, timestamp: '2026-02-01T00:00:00.000Z' }, store);
+  // New KB version re-scores the same facts: the criteria changed
+  await recordAnalysis(
+    { ...base, score: 65, kbVersion: '1.1.0', categoryHash: 'bbb', source: 'rescore', timestamp: '2026-03-01T00:00:00.000Z' },
+    store,
+  );
+  // Another country has its own baseline
+  await recordAnalysis({ ...base, country: 'US', score: 40, timestamp: '2026-03-02T00:00:00.000Z' }, store);
+
+  const entries = await getAnalysisHistory(productId, {}, store);
+  assert.strictEqual(entries.length, 4);
+  assert.strictEqual(entries[0].productId, 'escova-de-dentes-bambu');
+  assert.deepStrictEqual((await getAnalysisHistory(productId, { country: 'br' }, store)).length, 3);
+  assert.deepStrictEqual(
+    (await getAnalysisHistory(productId, { limit: 1 }, store)).map((entry) => entry.country),
+    ['US'],
+  );
+
+  const trend = buildScoreTrend(await getAnalysisHistory(productId, { country: 'BR' }, store));
+  assert.deepStrictEqual(
+    trend.points.map((point) => [point.score, point.change, point.reason]),
+    [
+      [60, null, null],
+      [72, 12, 'product_changed'],
+      [65, -7, 'criteria_changed'],
+    ],
+  );
+  assert.strictEqual(trend.change, 5);
+  assert.strictEqual(trend.productChange, 12);
+  assert.strictEqual(trend.criteriaChange, -7);
+
+  const allCountries = buildScoreTrend(entries);
+  assert.deepStrictEqual(allCountries.points[3], {
+    timestamp: '2026-03-02T00:00:00.000Z',
+    score: 40,
+    country: 'US',
+    kbVersion: '1.0.0',
+    change: null,
+    reason: null,
+  });
+
+  assert.deepStrictEqual(await getAnalysisHistory('unknown-product', {}, store), []);
+
+  // Concurrent analyses of the same product all land in the history
+  const concurrentStore = createKeyValueHistoryStore(createMemoryCache(10));
+  await Promise.all(
+    [50, 55, 60, 65, 70].map((score) => recordAnalysis({ ...base, score }, concurrentStore)),
+  );
+  assert.deepStrictEqual(
+    (await getAnalysisHistory(productId, {}, concurrentStore)).map((entry) => entry.score),
+    [50, 55, 60, 65, 70],
+  );
+
+  // A misconfigured durable backend is an error, not a silent fallback
+  config.history.backend = 'upstash';
+  config.cache.upstash = { url: undefined, token: undefined };
+  assert.throws(() => getHistoryStore(), /requires UPSTASH_REDIS_REST_URL/);
+
+  console.log('Analysis history test passed:', trend);
+}
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
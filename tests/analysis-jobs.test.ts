@@ -0,0 +1,118 @@
+import assert from 'assert';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import type { AddressInfo } from 'net';
+import config from '../config';
+import { createFileCache } from '../services/cache/file';
+import { createMemoryCache } from '../services/cache/memory';
+import {
+  completeAnalysisJob,
+  createAnalysisJob,
+  failAnalysisJob,
+  getAnalysisJob,
+  getJobCache,
+  isValidCallbackUrl,
+  notifyJobCallback,
+  setAnalysisJobStage,
+} from '../services/analysis-jobs';
+import type { AnalysisJob } from '../services/analysis-jobs';
+
+async function startCallbackServer(received: AnalysisJob[]): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      received.push(JSON.parse(body));
+      res.writeHead(204).end();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  return server;
+}
+
+async function run() {
+  const cache = createMemoryCache(10);
+  const received: AnalysisJob[] = [];
+  const server = await startCallbackServer(received);
+  const { port } = server.address() as AddressInfo;
+
+  assert.ok(isValidCallbackUrl('https://example.com/hooks/sicosi'));
+  assert.ok(!isValidCallbackUrl('ftp://example.com/hook'));
+  assert.ok(!isValidCallbackUrl('not a url'));
+
+  // Callbacks to internal addresses are refused (SSRF)
+  assert.ok(!isValidCallbackUrl(`http://127.0.0.1:${port}/hook`));
+  assert.ok(!isValidCallbackUrl('http://localhost:3000/hook'));
+  assert.ok(!isValidCallbackUrl('http://169.254.169.254/latest/meta-data'));
+  assert.ok(!isValidCallbackUrl('http://10.0.0.5/hook'));
+  assert.ok(!isValidCallbackUrl('http://192.168.1.10/hook'));
+  assert.ok(!isValidCallbackUrl('http://[::1]/hook'));
+  assert.ok(!isValidCallbackUrl('http://[::ffff:127.0.0.1]/hook'));
+  assert.ok(isValidCallbackUrl('https://93.184.216.34/hook'));
+
+  const blocked = await createAnalysisJob(
+    { productName: 'Escova de dentes', userCountry: 'BR', callbackUrl: `http://127.0.0.1:${port}/hook` },
+    cache,
+  );
+  assert.strictEqual(await notifyJobCallback(blocked), false);
+  assert.strictEqual(received.length, 0);
+
+  // With an allowlist only the listed hosts are accepted, internal ones included
+  config.jobs.callbackAllowedHosts = ['127.0.0.1'];
+  assert.ok(isValidCallbackUrl(`http://127.0.0.1:${port}/hook`));
+  assert.ok(!isValidCallbackUrl('https://example.com/hooks/sicosi'));
+
+  // Stage progress: earlier stages count as completed
+  const job = await createAnalysisJob(
+    { productName: 'Escova de dentes', userCountry: 'BR', callbackUrl: `http://127.0.0.1:${port}/hook` },
+    cache,
+  );
+  assert.strictEqual(job.status, 'queued');
+  assert.strictEqual(job.progress, 0);
+
+  await setAnalysisJobStage(job.id, 'categorizing', cache);
+  const searching = await setAnalysisJobStage(job.id, 'searching', cache);
+  assert.strictEqual(searching.status, 'running');
+  assert.strictEqual(searching.stage, 'searching');
+  assert.deepStrictEqual(searching.completedStages, ['categorizing']);
+  assert.strictEqual(searching.progress, 25);
+
+  // Completion stores the result and notifies the callback URL
+  await completeAnalysisJob(job.id, { success: true, category: 'cosmetics_personal_care' }, cache);
+  const completed = await getAnalysisJob(job.id, cache);
+  assert.strictEqual(completed?.status, 'completed');
+  assert.strictEqual(completed?.progress, 100);
+  assert.deepStrictEqual(completed?.result, { success: true, category: 'cosmetics_personal_care' });
+  assert.strictEqual(received.length, 1);
+  assert.strictEqual(received[0].id, job.id);
+  assert.strictEqual(received[0].status, 'completed');
+
+  // Failures keep the stage reached and the error message
+  const failing = await createAnalysisJob({ productName: 'Sabonete', userCountry: 'BR' }, cache);
+  await setAnalysisJobStage(failing.id, 'scoring', cache);
+  const failed = await failAnalysisJob(failing.id, new Error('Groq timeout'), cache);
+  assert.strictEqual(failed.status, 'failed');
+  assert.strictEqual(failed.stage, 'scoring');
+  assert.strictEqual(failed.error, 'Groq timeout');
+  assert.strictEqual(received.length, 1);
+
+  assert.strictEqual(await getAnalysisJob('missing', cache), null);
+  await assert.rejects(setAnalysisJobStage('missing', 'scoring', cache), /not found/);
+
+  // Async mode needs a cache shared by all instances
+  assert.throws(() => getJobCache(createMemoryCache(10)), /requires a shared cache/);
+  const fileCache = createFileCache(path.join(os.tmpdir(), 'sicosi-jobs-test'));
+  assert.strictEqual(getJobCache(fileCache), fileCache);
+  process.env.VERCEL = '1';
+  assert.throws(() => getJobCache(fileCache), /requires a shared cache/);
+  delete process.env.VERCEL;
+
+  server.close();
+  console.log('Analysis jobs test passed');
+}
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,102 @@
+import assert from 'assert';
+import {
+  BatchAnalysisLike,
+  BatchItemInput,
+  getBatchItemWeight,
+  mapWithConcurrency,
+  runBatchAnalysis,
+  summarizeCart,
+} from '../services/batch-analysis';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function run() {
+  // Bounded concurrency, results in input order
+  let active = 0;
+  let peak = 0;
+  const doubled = await mapWithConcurrency([5, 1, 4, 2, 3], 2, async (value) => {
+    active++;
+    peak = Math.max(peak, active);
+    await sleep(value * 5);
+    active--;
+    return value * 2;
+  });
+  assert.deepStrictEqual(doubled, [10, 2, 8, 4, 6]);
+  assert.strictEqual(peak, 2);
+
+  // An invalid limit falls back to one worker instead of dropping the items
+  assert.deepStrictEqual(await mapWithConcurrency([1, 2], NaN, async (value) => value), [1, 2]);
+  assert.deepStrictEqual(await mapWithConcurrency([1, 2], 0, async (value) => value), [1, 2]);
+
+  assert.strictEqual(getBatchItemWeight({ productName: 'a' }), 1);
+  assert.strictEqual(getBatchItemWeight({ productName: 'a', quantity: 3 }), 3);
+  assert.strictEqual(getBatchItemWeight({ productName: 'a', quantity: 2, price: 10 }), 20);
+
+  // Per-item failures do not fail the batch
+  const scores: Record<string, number> = { 'Bamboo toothbrush': 90, 'Plastic bottle': 30 };
+  const results = await runBatchAnalysis<BatchAnalysisLike>(
+    [
+      { productName: 'Bamboo toothbrush', quantity: 1, price: 5 },
+      { productName: 'Plastic bottle', quantity: 3, price: 5 },
+      { productName: 'Broken item' },
+      { name: '' },
+    ],
+    2,
+    async (item) => {
+      if (item.productName === 'Broken item') throw new Error('Tavily rate limit');
+      return {
+        success: true,
+        category: 'home_kitchen',
+        originalProduct: { sustainability_score: scores[item.productName as string] },
+        _meta: { cached: item.productName === 'Bamboo toothbrush' },
+      };
+    },
+  );
+
+  assert.deepStrictEqual(
+    results.map(({ status, score, error }) => ({ status, score, error })),
+    [
+      { status: 'completed', score: 90, error: undefined },
+      { status: 'completed', score: 30, error: undefined },
+      { status: 'failed', score: null, error: 'Tavily rate limit' },
+      { status: 'failed', score: null, error: 'productName is required' },
+    ],
+  );
+  assert.strictEqual(results[0].cached, true);
+  assert.strictEqual(results[1].classification, 'poor');
+
+  // Weighted by quantity × price: (90×5 + 30×15) / 20 = 45
+  const summary = summarizeCart(results);
+  assert.strictEqual(summary.totalItems, 4);
+  assert.strictEqual(summary.completed, 2);
+  assert.strictEqual(summary.failed, 2);
+  assert.strictEqual(summary.totalWeight, 20);
+  assert.strictEqual(summary.weightedScore, 45);
+  assert.strictEqual(summary.averageScore, 60);
+  assert.strictEqual(summary.classification, 'poor');
+  assert.deepStrictEqual(summary.lowestScoring.map((item) => item.productName), ['Plastic bottle', 'Bamboo toothbrush']);
+
+  assert.strictEqual(summarizeCart([]).weightedScore, null);
+
+  // Malformed items are reported as failed items
+  const malformed = await runBatchAnalysis<BatchAnalysisLike>(
+    [null, 'Bamboo toothbrush', { productName: 42 }] as unknown as BatchItemInput[],
+    2,
+    async () => ({ success: true, originalProduct: { sustainability_score: 90 } }),
+  );
+  assert.deepStrictEqual(
+    malformed.map(({ status, error }) => ({ status, error })),
+    [
+      { status: 'failed', error: 'item must be an object' },
+      { status: 'failed', error: 'item must be an object' },
+      { status: 'failed', error: 'productName is required' },
+    ],
+  );
+
+  console.log('Batch analysis test passed:', summary);
+}
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
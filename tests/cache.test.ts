@@ -0,0 +1,300 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createMemoryCache } from '../services/cache/memory';
+import { createFileCache } from '../services/cache/file';
+import { invalidateCache } from '../services/cache/invalidation';
+import { getAnalysisCacheKey, getRequestFingerprintKey } from '../services/cache/keys';
+import { checkKnowledgeBaseStamp, getKnowledgeBaseStamp } from '../services/cache/stamp';
+import { getCacheFreshness, getCacheTtl } from '../services/cache/ttl';
+import { getStageKnowledgeHash, withStageCache } from '../services/cache/stages';
+import { singleFlight } from '../services/cache/single-flight';
+import { setCache } from '../services/cache';
+import { refreshInBackground } from '../services/product-analysis';
+import alternativesData from '../data/alternatives.json';
+import type { AlternativesData } from '../types';
+import type { CacheBackend } from '../services/cache';
+
+async function exerciseBackend(cache: CacheBackend) {
+  await cache.set('sicosi:iphone 15:BR', { score: 42 }, 60);
+  await cache.set('sicosi:iphone 15:US', { score: 40 }, 60);
+  await cache.set('req:iphone15:br', { duplicate: true }, 60);
+
+  assert.deepStrictEqual(await cache.get('sicosi:iphone 15:BR'), { score: 42 });
+  assert.strictEqual(await cache.get('sicosi:missing:BR'), null);
+  assert.deepStrictEqual((await cache.keys('sicosi:*')).sort(), ['sicosi:iphone 15:BR', 'sicosi:iphone 15:US']);
+  assert.deepStrictEqual(await cache.keys('req:*'), ['req:iphone15:br']);
+
+  assert.strictEqual(await cache.del(['sicosi:iphone 15:US', 'sicosi:missing:BR']), 1);
+  assert.strictEqual(await cache.get('sicosi:iphone 15:US'), null);
+
+  // setIfAbsent only writes when the key is free
+  assert.strictEqual(await cache.setIfAbsent('req:lock', { owner: 'a' }, 60), true);
+  assert.strictEqual(await cache.setIfAbsent('req:lock', { owner: 'b' }, 60), false);
+  assert.deepStrictEqual(await cache.get('req:lock'), { owner: 'a' });
+  await cache.del('req:lock');
+  assert.strictEqual(await cache.setIfAbsent('req:lock', { owner: 'b' }, 60), true);
+
+  // Expired entries are neither returned nor listed
+  await cache.set('sicosi:expired:BR', { score: 1 }, 60);
+  const realNow = Date.now;
+  Date.now = () => realNow() + 61_000;
+  assert.strictEqual(await cache.get('sicosi:expired:BR'), null);
+  assert.ok(!(await cache.keys('sicosi:*')).includes('sicosi:expired:BR'));
+  Date.now = realNow;
+
+  await cache.flush();
+  assert.deepStrictEqual(await cache.keys('*'), []);
+
+  console.log(`Cache backend test passed: ${cache.name}`);
+}
+
+async function run() {
+  await exerciseBackend(createMemoryCache(10));
+
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sicosi-cache-'));
+  await exerciseBackend(createFileCache(dir));
+  fs.rmSync(dir, { recursive: true, force: true });
+
+  // LRU: reading a key keeps it, the least recently used one is evicted
+  const lru = createMemoryCache(2);
+  await lru.set('a', 1);
+  await lru.set('b', 2);
+  await lru.get('a');
+  await lru.set('c', 3);
+  assert.strictEqual(await lru.get('b'), null);
+  assert.strictEqual(await lru.get('a'), 1);
+  assert.strictEqual(await lru.get('c'), 3);
+
+  console.log('LRU eviction test passed');
+
+  // Targeted invalidation only touches matching sicosi:/req: keys
+  const shared = createMemoryCache(50);
+  const analysis = (category: string, kbVersion: string) => ({
+    originalProduct: { category },
+    alternatives: [],
+    kbVersion,
+  });
+  await shared.set(getAnalysisCacheKey('iPhone 15 Pro', 'BR'), analysis('electronics', '5.0'));
+  await shared.set(getAnalysisCacheKey('iPhone 15 Pro', 'US'), analysis('electronics', '4.0'));
+  await shared.set(getAnalysisCacheKey('Bamboo toothbrush', 'BR'), analysis('cosmetics_personal_care', '5.0'));
+  await shared.set(getRequestFingerprintKey('iPhone 15 Pro', 'BR'), analysis('electronics', '5.0'));
+  await shared.set('other-app:session:1', { keep: true });
+
+  const dryRun = await invalidateCache({ productName: 'iphone  15 pro' }, { dryRun: true, cache: shared });
+  assert.strictEqual(dryRun.deleted, 0);
+  assert.deepStrictEqual(dryRun.matched.map((entry) => entry.key).sort(), [
+    'req:iphone15pro:br',
+    'sicosi:iphone 15 pro:BR',
+    'sicosi:iphone 15 pro:US',
+  ]);
+  assert.strictEqual((await shared.keys('*')).length, 5);
+
+  const byVersion = await invalidateCache({ kbVersion: '4.0' }, { cache: shared });
+  assert.deepStrictEqual(byVersion.matched.map((entry) => entry.key), ['sicosi:iphone 15 pro:US']);
+  assert.strictEqual(byVersion.deleted, 1);
+
+  const byCountryAndCategory = await invalidateCache(
+    { country: 'br', category: 'electronics' },
+    { cache: shared },
+  );
+  assert.strictEqual(byCountryAndCategory.deleted, 2);
+
+  const all = await invalidateCache({ all: true }, { cache: shared });
+  assert.strictEqual(all.deleted, 1);
+  assert.deepStrictEqual(await shared.keys('*'), ['other-app:session:1']);
+
+  await assert.rejects(invalidateCache({}, { cache: shared }), /At least one filter/);
+
+  console.log('Targeted invalidation test passed');
+
+  // Entries stamped with an older KB version or category content are stale
+  const kb = alternativesData as unknown as AlternativesData;
+  const stamp = getKnowledgeBaseStamp('electronics');
+  assert.strictEqual(stamp.kbVersion, kb.version);
+  assert.strictEqual(checkKnowledgeBaseStamp(stamp, 'electronics'), 'fresh');
+  assert.strictEqual(checkKnowledgeBaseStamp({ ...stamp, kbVersion: '4.0' }, 'electronics'), 'stale_version');
+  assert.strictEqual(checkKnowledgeBaseStamp({}, 'electronics'), 'stale_version');
+
+  const editedKb = {
+    version: kb.version,
+    certification_registry: kb.certification_registry,
+    categories: {
+      ...kb.categories,
+      electronics: {
+        ...kb.categories.electronics,
+        sustainability_criteria: {
+          ...kb.categories.electronics.sustainability_criteria,
+          durability: { ...kb.categories.electronics.sustainability_criteria.durability, weight: 0.5 },
+        },
+      },
+    },
+  };
+  assert.strictEqual(checkKnowledgeBaseStamp(stamp, 'electronics', editedKb), 'stale_category');
+  assert.strictEqual(checkKnowledgeBaseStamp(getKnowledgeBaseStamp('textiles_clothing'), 'textiles_clothing', editedKb), 'fresh');
+
+  // Certification registry edits change the bonus credits, so they re-score too
+  const registryKb = {
+    ...kb,
+    certification_registry: {
+      ...kb.certification_registry,
+      energy_star: { ...kb.certification_registry!.energy_star, criteria_credits: { energy_efficiency: 10 } },
+    },
+  };
+  assert.strictEqual(checkKnowledgeBaseStamp(stamp, 'electronics', registryKb), 'stale_registry');
+  assert.strictEqual(checkKnowledgeBaseStamp({ ...stamp, registryHash: undefined }, 'electronics'), 'stale_registry');
+
+  console.log('Knowledge-base stamp test passed');
+
+  // Soft TTL serves stale entries, hard TTL expires them; categories can override both
+  const hour = 60 * 60 * 1000;
+  const now = Date.now();
+  assert.deepStrictEqual(getCacheTtl('electronics'), { softTtlSeconds: 86400, hardTtlSeconds: 604800 });
+  assert.strictEqual(getCacheFreshness(now - 2 * hour, 'electronics', now), 'fresh');
+  assert.strictEqual(getCacheFreshness(now - 30 * hour, 'electronics', now), 'stale');
+  assert.strictEqual(getCacheFreshness(now - 8 * 24 * hour, 'electronics', now), 'expired');
+  assert.strictEqual(getCacheFreshness(now - 8 * hour, 'cloud_services', now), 'stale');
+  assert.strictEqual(getCacheFreshness(now - 30 * hour, 'basic_metals', now), 'fresh');
+  assert.strictEqual(getCacheFreshness(undefined, 'electronics', now), 'stale');
+
+  console.log('Soft/hard TTL test passed');
+
+  // Stage results are reused across countries and invalidated with the product
+  const stageCache = createMemoryCache(50);
+  setCache(stageCache);
+  let translations = 0;
+  const translate = () =>
+    withStageCache('translation', { productName: 'Escova de dentes' }, { product: 'Escova de dentes' }, async () => {
+      translations++;
+      return 'toothbrush';
+    });
+
+  assert.strictEqual(await translate(), 'toothbrush');
+  assert.strictEqual(await translate(), 'toothbrush');
+  assert.strictEqual(translations, 1);
+
+  await withStageCache(
+    'search',
+    { productName: 'Escova de dentes', userCountry: 'BR' },
+    { product: 'Escova de dentes', country: 'BR', category: 'cosmetics_personal_care' },
+    async () => ({ products: [], validUrls: [] }),
+  );
+
+  const byCountry = await invalidateCache({ country: 'BR' }, { dryRun: true, cache: stageCache });
+  assert.deepStrictEqual(byCountry.matched.map((entry) => entry.kind), ['stage']);
+
+  const byProduct = await invalidateCache({ productName: 'escova de dentes' }, { cache: stageCache });
+  assert.strictEqual(byProduct.deleted, 2);
+  await translate();
+  assert.strictEqual(translations, 2);
+
+  // Fallbacks (erro da IA ou da busca) não ficam gravados
+  let searches = 0;
+  const failingSearch = () =>
+    withStageCache(
+      'search',
+      { productName: 'Garrafa', userCountry: 'US' },
+      { product: 'Garrafa', country: 'US' },
+      async (skipCache) => {
+        searches++;
+        skipCache('search error');
+        return { products: [], validUrls: [] };
+      },
+    );
+
+  assert.deepStrictEqual(await failingSearch(), { products: [], validUrls: [] });
+  await failingSearch();
+  assert.strictEqual(searches, 2);
+
+  // A chave depende do conteúdo da KB lido pela etapa, não só da versão
+  const keywordEdit = {
+    ...kb,
+    categories: {
+      ...kb.categories,
+      electronics: { ...kb.categories.electronics, keywords: [...kb.categories.electronics.keywords, 'walkman'] },
+    },
+  };
+  assert.notStrictEqual(getStageKnowledgeHash('category', keywordEdit), getStageKnowledgeHash('category', kb));
+  assert.strictEqual(getStageKnowledgeHash('translation', keywordEdit), getStageKnowledgeHash('translation', kb));
+  assert.strictEqual(getStageKnowledgeHash('search', keywordEdit), getStageKnowledgeHash('search', kb));
+
+  console.log('Pipeline stage cache test passed');
+
+  // Single-flight: concurrent callers share one run
+  const flightCache = createMemoryCache(10);
+  const flightOptions = { cache: flightCache, pollIntervalMs: 5, waitTimeoutMs: 1000 };
+  let runs = 0;
+  const slowAnalysis = async () => {
+    runs++;
+    await new Promise((resolve) => setTimeout(resolve, 30));
+    return { score: 77 };
+  };
+  const flights = await Promise.all([
+    singleFlight('req:escova:br', slowAnalysis, flightOptions),
+    singleFlight('req:escova:br', slowAnalysis, flightOptions),
+    singleFlight('req:escova:br', slowAnalysis, flightOptions),
+  ]);
+  assert.strictEqual(runs, 1);
+  assert.deepStrictEqual(flights.map((flight) => flight.coalesced), [false, true, true]);
+  flights.forEach((flight) => assert.deepStrictEqual(flight.result, { score: 77 }));
+
+  // A failed owner releases the lock and a waiter takes over
+  let attempts = 0;
+  const flaky = async () => {
+    attempts++;
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    if (attempts === 1) throw new Error('Groq down');
+    return { score: 60 };
+  };
+  const [failed, recovered] = await Promise.allSettled([
+    singleFlight('req:sabonete:br', flaky, flightOptions),
+    singleFlight('req:sabonete:br', flaky, flightOptions),
+  ]);
+  assert.strictEqual(failed.status, 'rejected');
+  assert.ok(recovered.status === 'fulfilled' && !recovered.value.coalesced);
+  assert.strictEqual(attempts, 2);
+
+  // A failing owner whose lock expired and was taken over leaves the new owner's lock alone
+  const takenOver = { status: 'running', owner: 'other', startedAt: Date.now() };
+  await assert.rejects(
+    singleFlight(
+      'req:expired:br',
+      async () => {
+        await flightCache.set('req:expired:br', takenOver, 60);
+        throw new Error('Groq down');
+      },
+      flightOptions,
+    ),
+    /Groq down/,
+  );
+  assert.deepStrictEqual(await flightCache.get('req:expired:br'), takenOver);
+
+  // Waiters give up after the timeout and run on their own
+  await flightCache.setIfAbsent('req:stuck:br', { status: 'running', owner: 'ghost', startedAt: Date.now() }, 60);
+  const timedOut = await singleFlight('req:stuck:br', async () => ({ score: 10 }), {
+    ...flightOptions,
+    waitTimeoutMs: 30,
+  });
+  assert.deepStrictEqual(timedOut, { result: { score: 10 }, coalesced: false });
+
+  console.log('Single-flight test passed');
+
+  // Stale refresh: the lock lives in the shared cache, so one refresh per key
+  const refreshCache = createMemoryCache(10);
+  setCache(refreshCache);
+  let refreshes = 0;
+  const refresh = () => new Promise<void>((resolve) => setTimeout(() => resolve(void refreshes++), 10));
+  refreshInBackground('sicosi:escova:BR', refresh);
+  refreshInBackground('sicosi:escova:BR', refresh);
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  assert.strictEqual(refreshes, 1);
+  assert.ok(await refreshCache.get('refresh:sicosi:escova:BR'));
+
+  console.log('Background refresh test passed');
+}
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
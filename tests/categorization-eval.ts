@@ -0,0 +1,89 @@
+import fs from 'fs';
+import path from 'path';
+import alternativesData from '../data/alternatives.json';
+import config from '../config';
+import type { CategorizationKnowledgeBase } from '../services/categorization';
+import {
+  checkAgainstBaseline,
+  EvaluationBaseline,
+  evaluateCategorizer,
+  formatEvaluationReport,
+  LabeledProduct,
+} from '../services/categorization-eval';
+
+// Uso:
+//   npm run eval:categories                     gate offline contra a baseline
+//   npm run eval:categories -- --update-baseline  grava a acurácia atual como baseline
+//   npm run eval:categories -- --with-ai          usa tradução e fallback do Groq (só relatório)
+//   npm run eval:categories -- --json             imprime a avaliação em JSON
+
+const DATASET_PATH = path.join(__dirname, 'eval', 'categorization-dataset.json');
+const BASELINE_PATH = path.join(__dirname, 'eval', 'categorization-baseline.json');
+const DEFAULT_TOLERANCE = 0.01;
+
+async function run() {
+  const args = process.argv.slice(2);
+  const updateBaseline = args.includes('--update-baseline');
+  const useAi = args.includes('--with-ai');
+  const asJson = args.includes('--json');
+
+  if (useAi && updateBaseline) {
+    throw new Error('The baseline is keyword-only; run --update-baseline without --with-ai');
+  }
+
+  // Offline: sem chave nem fixtures, tradução só pelo dicionário e fallback
+  // apenas contado — o resultado depende só do alternatives.json
+  if (!useAi) {
+    config.groq.apiKey = undefined;
+    config.fixtures.mode = 'off';
+  }
+
+  const knowledgeBase = alternativesData as unknown as CategorizationKnowledgeBase;
+  const dataset = JSON.parse(fs.readFileSync(DATASET_PATH, 'utf-8')) as { items: LabeledProduct[] };
+
+  // Os logs por produto do categorizador não interessam aqui
+  const { log, warn, error } = console;
+  console.log = console.warn = console.error = () => undefined;
+  const evaluation = await evaluateCategorizer(dataset.items, knowledgeBase, { useAi }).finally(() => {
+    Object.assign(console, { log, warn, error });
+  });
+
+  console.log(asJson ? JSON.stringify(evaluation, null, 2) : formatEvaluationReport(evaluation));
+
+  if (useAi) return;
+
+  if (updateBaseline) {
+    const previous = fs.existsSync(BASELINE_PATH)
+      ? (JSON.parse(fs.readFileSync(BASELINE_PATH, 'utf-8')) as EvaluationBaseline)
+      : null;
+    const baseline: EvaluationBaseline = {
+      accuracy: evaluation.accuracy,
+      tolerance: previous?.tolerance ?? DEFAULT_TOLERANCE,
+      keywordsHash: evaluation.keywordsHash,
+      total: evaluation.total,
+      updatedAt: new Date().toISOString(),
+    };
+    fs.writeFileSync(BASELINE_PATH, `${JSON.stringify(baseline, null, 2)}\n`);
+    console.log(`\n📌 Baseline updated: ${BASELINE_PATH}`);
+    return;
+  }
+
+  const baseline = JSON.parse(fs.readFileSync(BASELINE_PATH, 'utf-8')) as EvaluationBaseline;
+  const check = checkAgainstBaseline(evaluation, baseline);
+
+  if (check.keywordsChanged) {
+    console.log('\nℹ️ keywords, synonyms or subcategories changed since the baseline was recorded');
+  }
+
+  if (!check.passed) {
+    console.error(`\n❌ ${check.message}`);
+    process.exit(1);
+  }
+
+  console.log(`\n✅ ${check.message}`);
+}
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,388 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import config from '../config';
+import {
+  applyExclusionRules,
+  applyRetailerPathMappings,
+  calculateCategoryScores,
+  categorizeProduct,
+  CategorizationError,
+  classifyWithAI,
+  CategorizationKnowledgeBase,
+  resolveSubcategoryPath,
+  selectWinner,
+  translateProductName,
+} from '../services/categorization';
+import {
+  checkAgainstBaseline,
+  computeClassificationMetrics,
+  evaluateCategorizer,
+  getKeywordsHash,
+  UNCLASSIFIED,
+} from '../services/categorization-eval';
+import { detectLanguage, StemmingLanguage, stemToken, toStemmingLanguage } from '../services/keyword-matching';
+import { parseProductUrl } from '../services/url-signals';
+
+const knowledgeBase: CategorizationKnowledgeBase = {
+  version: 'test',
+  categories: {
+    footwear: {
+      name: 'Footwear',
+      keywords: ['shoe', 'sneaker'],
+      exclusion_keywords: ['polish'],
+      keyword_synonyms: { sneaker: ['trainer'] },
+      subcategories: {
+        sneakers: { name: 'Sneakers', keywords: ['sneaker'], keyword_synonyms: { sneaker: ['trainer'] } },
+        boots: { name: 'Boots', keywords: ['boot'] },
+      },
+    },
+    cleaning: {
+      name: 'Cleaning',
+      keywords: ['polish', 'cleaner'],
+    },
+    electronics: {
+      name: 'Electronics',
+      keywords: ['watch', 'phone'],
+    },
+  },
+  common_translations: { tênis: 'sneaker', relógio: 'watch' },
+  scoring_config: {
+    source_weights: {
+      product_name_translated: 5,
+      product_name_original: 3,
+      page_title: 2,
+      description: 1,
+      url: 0,
+    },
+    validation_thresholds: { minimum_score: 3, confidence_ratio: 2, exclusion_penalty: -999 },
+    multi_category: { max_secondary: 1, secondary_min_ratio: 0.4, secondary_share: 0.3 },
+  },
+};
+
+// Stem, n-gram and typo matching, each with its own weight
+const matchingKnowledgeBase: CategorizationKnowledgeBase = {
+  categories: {
+    furniture: {
+      name: 'Furniture',
+      keywords: ['mattress'],
+      keyword_synonyms: { mattress: ['colchão', 'colchón'] },
+    },
+    office_supplies: {
+      name: 'Office Supplies',
+      keywords: ['pencil'],
+      keyword_synonyms: { pencil: ['lápis', 'lápiz'] },
+    },
+    electronics: {
+      name: 'Electronics',
+      keywords: ['power bank', 'smartwatch'],
+    },
+  },
+  scoring_config: {
+    ...knowledgeBase.scoring_config,
+    keyword_matching: {
+      match_weights: { exact: 1, stem: 0.5, ngram: 0.8, fuzzy: 0.25 },
+      stemming_languages: ['pt', 'es'],
+    },
+  },
+};
+
+// Page URL as a source, with retailer path mappings
+const urlKnowledgeBase: CategorizationKnowledgeBase = {
+  ...knowledgeBase,
+  scoring_config: {
+    ...knowledgeBase.scoring_config,
+    source_weights: { ...knowledgeBase.scoring_config.source_weights, url: 2 },
+    url_signals: {
+      ignored_segments: ['c', 'p', 'produto'],
+      retailer_mapping_weight: 2,
+      retailer_paths: {
+        'loja.com.br': { eletronicos: 'electronics', calcados: 'footwear', limpeza: 'unknown_category' },
+      },
+    },
+  },
+};
+
+const matchesOf = (text: string, category: string, language?: StemmingLanguage) =>
+  calculateCategoryScores([{ text, weight: 4, language }], matchingKnowledgeBase)
+    .find((score) => score.category === category)
+    ?.matches.map((match) => [match.keyword, match.variant, match.type, match.points]);
+
+const noTranslation = async (name: string) => name;
+
+async function run() {
+  // Keyword scoring: synonyms and plurals count, weighted by source
+  const scores = calculateCategoryScores(
+    [
+      { text: 'Running Trainer', weight: 5 },
+      { text: 'Best shoes for running', weight: 2 },
+    ],
+    knowledgeBase,
+  );
+  const footwear = scores.find((score) => score.category === 'footwear');
+  assert.strictEqual(footwear?.score, 7);
+  assert.deepStrictEqual(
+    footwear?.matches.map((match) => [match.keyword, match.variant, match.points]),
+    [
+      ['sneaker', 'trainer', 5],
+      ['shoe', 'shoes', 2],
+    ],
+  );
+
+  // Subcategory keywords count for the parent; the path follows the best child
+  assert.deepStrictEqual(resolveSubcategoryPath('footwear', [{ text: 'Running Trainer', weight: 5 }], knowledgeBase), [
+    'sneakers',
+  ]);
+  assert.strictEqual(
+    calculateCategoryScores([{ text: 'Leather Boot', weight: 5 }], knowledgeBase).find(
+      (score) => score.category === 'footwear',
+    )?.score,
+    5,
+  );
+
+  // Exclusions penalize the category and block it from winning
+  const excluded = applyExclusionRules(
+    calculateCategoryScores([{ text: 'shoe polish', weight: 5 }], knowledgeBase),
+    'shoe polish',
+    knowledgeBase,
+  );
+  assert.deepStrictEqual(excluded.find((score) => score.category === 'footwear')?.exclusions, ['polish']);
+  assert.strictEqual(selectWinner(excluded, knowledgeBase)?.category, 'cleaning');
+
+  // Portuguese/Spanish plurals match by stem; accented keywords match accent-free text
+  assert.strictEqual(stemToken('colchoes', 'pt'), 'colchao');
+  assert.strictEqual(stemToken('lapices', 'es'), 'lapiz');
+  assert.deepStrictEqual(matchesOf('Colchões de espuma', 'furniture'), [['mattress', 'colchoes', 'stem', 2]]);
+  assert.deepStrictEqual(matchesOf('Lápices de colores', 'office_supplies', 'es'), [['pencil', 'lapices', 'stem', 2]]);
+  assert.deepStrictEqual(matchesOf('Colchón viscoelástico', 'furniture'), [['mattress', 'colchon', 'exact', 4]]);
+
+  // Only the text's language rules apply: Portuguese rules don't turn "lapices" into "lapiz"
+  assert.deepStrictEqual(matchesOf('Lápices de colores', 'office_supplies', 'pt'), []);
+  assert.strictEqual(detectLanguage('Colchões de espuma com capa', ['en', 'pt', 'es']), 'pt');
+  assert.strictEqual(detectLanguage('Lápices de colores con estuche', ['en', 'pt', 'es']), 'es');
+  assert.strictEqual(detectLanguage('Cotton shirt with pocket', ['en', 'pt', 'es']), 'en');
+  assert.strictEqual(detectLanguage('Modelo X200', ['en', 'pt', 'es']), null);
+  assert.strictEqual(toStemmingLanguage('pt-BR'), 'pt');
+  assert.strictEqual(toStemmingLanguage('fr'), undefined);
+
+  // The language comes from the request or, without it, from the text
+  const detected = await categorizeProduct(
+    { productName: 'Lápices de colores con estuche' },
+    { knowledgeBase: matchingKnowledgeBase, aiFallback: null, translate: noTranslation },
+  );
+  assert.strictEqual(detected.category, 'office_supplies');
+  const requested = await categorizeProduct(
+    { productName: 'Lapices', language: 'es-MX' },
+    { knowledgeBase: matchingKnowledgeBase, aiFallback: null, translate: noTranslation },
+  );
+  assert.strictEqual(requested.category, 'office_supplies');
+
+  // The same cases against the shipped knowledge base (no AI fallback)
+  const shipped = async (productName: string) =>
+    (await categorizeProduct({ productName }, { aiFallback: null, translate: noTranslation })).category;
+  assert.strictEqual(await shipped('Lápices de colores 24 unidades'), 'office_supplies');
+  assert.strictEqual(await shipped('Colchões de espuma'), 'furniture');
+  assert.strictEqual(await shipped('Colchones ortopédicos'), 'furniture');
+  assert.strictEqual(await shipped('Canetas esferográficas com tampa'), 'office_supplies');
+  assert.strictEqual(await shipped('Memory foam matress'), 'furniture');
+  assert.strictEqual(await shipped('Powerbank 10000mAh'), 'electronics');
+
+  // Compound words match split or joined
+  assert.deepStrictEqual(matchesOf('Powerbank 10000mAh', 'electronics'), [['power bank', 'powerbank', 'ngram', 3.2]]);
+  assert.deepStrictEqual(matchesOf('Smart Watch', 'electronics'), [['smartwatch', 'smart watch', 'ngram', 3.2]]);
+
+  // Typos within the edit-distance threshold; a token already matched exactly is not re-counted
+  assert.deepStrictEqual(matchesOf('Matress topper', 'furniture'), [['mattress', 'matress', 'fuzzy', 1]]);
+  assert.deepStrictEqual(matchesOf('Mattress topper', 'furniture'), [['mattress', 'mattress', 'exact', 4]]);
+  assert.deepStrictEqual(matchesOf('Matrix topper', 'furniture'), []);
+
+  // URL paths: generic segments, ids and extensions are dropped, slugs split into words
+  assert.deepStrictEqual(parseProductUrl('https://www.shop.com/c/electronics/laptops/dell-xps-13/p/B08N5WRWNW.html', ['c', 'p']), {
+    host: 'shop.com',
+    segments: ['c', 'electronics', 'laptops', 'dell-xps-13', 'p', 'b08n5wrwnw'],
+    text: 'electronics laptops dell xps',
+  });
+  assert.strictEqual(parseProductUrl('loja.com.br/casa%3Elimpeza/produto/sabao-em-po')?.text, 'casa limpeza produto sabao em po');
+  assert.strictEqual(parseProductUrl('not a url'), null);
+
+  // The retailer's own path mapping scores the category; unknown categories are ignored
+  const mapped = applyRetailerPathMappings(
+    calculateCategoryScores([], urlKnowledgeBase),
+    'https://m.loja.com.br/calcados/limpeza/tenis-x/p/123',
+    urlKnowledgeBase,
+  );
+  assert.deepStrictEqual(
+    mapped.find((score) => score.category === 'footwear')?.matches.map((match) => [match.variant, match.type, match.points]),
+    [['m.loja.com.br/calcados', 'retailer_path', 4]],
+  );
+  assert.deepStrictEqual(
+    mapped.filter((score) => score.score > 0).map((score) => score.category),
+    ['footwear'],
+  );
+  assert.strictEqual(
+    applyRetailerPathMappings(calculateCategoryScores([], urlKnowledgeBase), 'https://other.com/calcados', urlKnowledgeBase)
+      .every((score) => score.score === 0),
+    true,
+  );
+
+  // Path keywords and the retailer mapping decide a name with no keywords of its own
+  const fromUrl = await categorizeProduct(
+    { productName: 'Modelo X200', pageUrl: 'https://loja.com.br/eletronicos/phone/modelo-x200' },
+    { knowledgeBase: urlKnowledgeBase, aiFallback: null, translate: noTranslation },
+  );
+  assert.strictEqual(fromUrl.category, 'electronics');
+  assert.strictEqual(fromUrl.source, 'keywords');
+  assert.strictEqual(fromUrl.winner?.score, 6);
+
+  // Dictionary translation from the injected KB (no LLM call)
+  assert.strictEqual(await translateProductName('Tênis Verde', knowledgeBase), 'sneaker verde');
+
+  // Clear keyword winner: the AI fallback is never called
+  let fallbackCalls = 0;
+  const fakeFallback = async () => {
+    fallbackCalls++;
+    return 'electronics';
+  };
+
+  const result = await categorizeProduct(
+    { productName: 'Smart Watch', pageTitle: 'Smart watch with phone calls' },
+    { knowledgeBase, aiFallback: fakeFallback, translate: noTranslation, topN: 2 },
+  );
+  assert.strictEqual(result.category, 'electronics');
+  assert.strictEqual(result.source, 'keywords');
+  assert.strictEqual(result.confidence, 'high');
+  assert.strictEqual(result.scores.length, 2);
+  assert.strictEqual(result.scores[0].category, 'electronics');
+  assert.deepStrictEqual(result.secondaryCategories, []);
+  assert.strictEqual(fallbackCalls, 0);
+
+  // Tie between two categories: the fallback picks the primary, the other
+  // becomes a secondary category with the configured share of the criteria
+  const multi = await categorizeProduct(
+    { productName: 'Trainer Watch' },
+    { knowledgeBase, aiFallback: fakeFallback, translate: noTranslation },
+  );
+  assert.strictEqual(multi.category, 'electronics');
+  assert.deepStrictEqual(multi.secondaryCategories, [{ category: 'footwear', score: 8, share: 0.3 }]);
+  fallbackCalls = 0;
+
+  // Shipped KB: an exclusion only blocks the primary ("phone" keeps energy a secondary of
+  // the charger), and a single generic keyword ("organic") does not make a secondary
+  const secondariesOf = async (productName: string) =>
+    (await categorizeProduct({ productName }, { aiFallback: null, translate: noTranslation })).secondaryCategories.map(
+      (secondary) => secondary.category,
+    );
+  assert.deepStrictEqual(await secondariesOf('Solar powered phone charger'), ['energy_utilities']);
+  assert.deepStrictEqual(await secondariesOf('Carregador solar para celular'), ['energy_utilities']);
+  assert.deepStrictEqual(await secondariesOf('Baby organic cotton bodysuit'), ['textiles_clothing']);
+
+  // No keyword evidence: the injected fallback decides
+  const aiResult = await categorizeProduct(
+    { productName: 'Mystery Gadget' },
+    { knowledgeBase, aiFallback: fakeFallback, translate: noTranslation },
+  );
+  assert.strictEqual(aiResult.category, 'electronics');
+  assert.strictEqual(aiResult.source, 'ai');
+  assert.strictEqual(aiResult.confidence, 'low');
+  assert.strictEqual(aiResult.winner, null);
+  assert.strictEqual(fallbackCalls, 1);
+
+  // Fallback answers are validated against the KB
+  await assert.rejects(
+    categorizeProduct(
+      { productName: 'Mystery Gadget' },
+      { knowledgeBase, aiFallback: async () => 'furniture', translate: noTranslation },
+    ),
+    (error: unknown) => error instanceof CategorizationError && /invalid category/.test(error.message),
+  );
+
+  // Fallback disabled: low confidence becomes an error
+  await assert.rejects(
+    categorizeProduct({ productName: 'Mystery Gadget' }, { knowledgeBase, aiFallback: null, translate: noTranslation }),
+    (error: unknown) => error instanceof CategorizationError && /no AI available/.test(error.message),
+  );
+
+  // An AI transport failure is not an unclassifiable product: it is rethrown as is
+  const fixtureSettings = { ...config.fixtures };
+  config.fixtures.mode = 'replay';
+  config.fixtures.dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sicosi-classifier-'));
+  await assert.rejects(
+    classifyWithAI({ name: 'Mystery Gadget', translated: 'Mystery Gadget', title: '' }, knowledgeBase),
+    (error: unknown) => error instanceof Error && !(error instanceof CategorizationError) && /No groq fixture/.test(error.message),
+  );
+  Object.assign(config.fixtures, fixtureSettings);
+
+  // Generic names are rejected before any scoring
+  await assert.rejects(
+    categorizeProduct({ productName: 'item' }, { knowledgeBase, aiFallback: fakeFallback, translate: noTranslation }),
+    (error: unknown) => error instanceof CategorizationError && /too generic/.test(error.message),
+  );
+
+  // Evaluation metrics: precision/recall per category and confusion matrix
+  const metrics = computeClassificationMetrics(
+    [
+      { expected: 'footwear', predicted: 'footwear' },
+      { expected: 'footwear', predicted: 'cleaning' },
+      { expected: 'cleaning', predicted: 'cleaning' },
+      { expected: 'electronics', predicted: null },
+    ],
+    Object.keys(knowledgeBase.categories),
+  );
+  assert.strictEqual(metrics.accuracy, 0.5);
+  assert.deepStrictEqual(metrics.perCategory.footwear, { precision: 1, recall: 0.5, support: 2, predicted: 1 });
+  assert.deepStrictEqual(metrics.perCategory.cleaning, { precision: 0.5, recall: 1, support: 1, predicted: 2 });
+  assert.strictEqual(metrics.perCategory.electronics.precision, null);
+  assert.deepStrictEqual(metrics.confusion.electronics, { [UNCLASSIFIED]: 1 });
+
+  // Offline evaluation counts the fallback without calling it
+  const evaluation = await evaluateCategorizer(
+    [
+      { name: 'Smart Watch', language: 'en', expected: 'electronics' },
+      { name: 'Mystery Gadget', language: 'en', expected: 'electronics' },
+    ],
+    knowledgeBase,
+    { translate: noTranslation },
+  );
+  assert.strictEqual(evaluation.accuracy, 0.5);
+  assert.strictEqual(evaluation.aiFallbackCount, 1);
+  assert.strictEqual(evaluation.misclassified[0].name, 'Mystery Gadget');
+
+  const baseline = {
+    accuracy: 0.6,
+    tolerance: 0.05,
+    keywordsHash: getKeywordsHash(knowledgeBase),
+    total: 2,
+    updatedAt: '2026-01-01T00:00:00.000Z',
+  };
+  assert.strictEqual(checkAgainstBaseline(evaluation, baseline).passed, false);
+  assert.strictEqual(checkAgainstBaseline(evaluation, { ...baseline, tolerance: 0.1 }).passed, true);
+  assert.strictEqual(checkAgainstBaseline(evaluation, baseline).keywordsChanged, false);
+
+  // Subcategory keywords and synonyms also decide the category
+  const withBootSynonym: CategorizationKnowledgeBase = {
+    ...knowledgeBase,
+    categories: {
+      ...knowledgeBase.categories,
+      footwear: {
+        ...knowledgeBase.categories.footwear,
+        subcategories: {
+          ...knowledgeBase.categories.footwear.subcategories,
+          boots: { name: 'Boots', keywords: ['boot'], keyword_synonyms: { boot: ['galoche'] } },
+        },
+      },
+    },
+  };
+  assert.notStrictEqual(getKeywordsHash(withBootSynonym), baseline.keywordsHash);
+
+  console.log('Categorization service test passed:', {
+    category: result.category,
+    confidence: result.confidence,
+    topScores: result.scores.map((score) => `${score.category}=${score.score}`),
+  });
+}
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
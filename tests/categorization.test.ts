@@ -1,4 +1,4 @@
-import { identifyCategory } from '../pages/api/analyze-product';
+import { identifyCategory } from '../services/categorization';
 
 const testCases = [
   {
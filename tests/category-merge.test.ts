@@ -0,0 +1,69 @@
+import assert from 'assert';
+import alternativesData from '../data/alternatives.json';
+import { calculateSustainabilityScore } from '../services/scoring-engine';
+import { mergeCategoryCriteria, withMergedCategory } from '../services/category-merge';
+import type { AlternativesData } from '../types';
+
+function run() {
+  const categories = (alternativesData as unknown as AlternativesData).categories;
+
+  // No secondaries: the primary category itself (same object, same cache hash)
+  assert.strictEqual(mergeCategoryCriteria('textiles_clothing', [], categories), categories.textiles_clothing);
+  assert.strictEqual(withMergedCategory('textiles_clothing', undefined, categories), categories);
+
+  // "Baby organic cotton bodysuit": textiles 70% + baby products 30%
+  const merged = mergeCategoryCriteria(
+    'textiles_clothing',
+    [{ category: 'menstrual_baby_products', share: 0.3 }],
+    categories,
+  );
+  const weights = Object.fromEntries(
+    Object.entries(merged.sustainability_criteria).map(([name, criterion]) => [name, criterion.weight]),
+  );
+  assert.deepStrictEqual(weights, {
+    materials: 0.315,
+    production: 0.175,
+    durability: 0.14,
+    social_responsibility: 0.105,
+    end_of_life: 0.1,
+    reusability: 0.075,
+    safety: 0.06,
+    packaging: 0.03,
+  });
+  const totalWeight = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+  assert.ok(Math.abs(totalWeight - 1) < 0.001);
+
+  // Shared criteria keep the indicators of both categories
+  const materialIds = (merged.sustainability_criteria.materials.indicators || []).map((indicator) => indicator.id);
+  assert.ok(materialIds.includes('textiles_clothing_materials_1'));
+  assert.ok(materialIds.includes('menstrual_baby_products_materials_1'));
+  assert.ok(merged.certifications.includes('GOTS'));
+  assert.ok(merged.certifications.includes('USDA Organic'));
+  assert.strictEqual(merged.name, categories.textiles_clothing.name);
+
+  // The score uses the merged criteria of the primary category
+  const score = calculateSustainabilityScore(
+    { materials: { score: 80, evidence: [] }, safety: { score: 90, evidence: [] } },
+    'textiles_clothing',
+    withMergedCategory('textiles_clothing', [{ category: 'menstrual_baby_products', share: 0.3 }], categories),
+  );
+  assert.strictEqual(score.breakdown.safety.weight, 0.06);
+  assert.strictEqual(score.breakdown.safety.score, 90);
+
+  assert.throws(
+    () =>
+      mergeCategoryCriteria(
+        'textiles_clothing',
+        [
+          { category: 'menstrual_baby_products', share: 0.6 },
+          { category: 'electronics', share: 0.5 },
+        ],
+        categories,
+      ),
+    /less than 1/,
+  );
+
+  console.log('Category merge test passed:', weights);
+}
+
+run();
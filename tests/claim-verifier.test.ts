@@ -0,0 +1,41 @@
+import assert from 'assert';
+import { detectVagueLanguage } from '../services/claim-verifier';
+
+// Generic terms without a qualifier are vague, in any of the supported languages
+const ecoFriendly = detectVagueLanguage('Eco-friendly packaging');
+assert.strictEqual(ecoFriendly.vague, true);
+assert.deepStrictEqual(ecoFriendly.terms, ['eco-friendly']);
+assert.strictEqual(ecoFriendly.reasons.length, 1);
+
+assert.deepStrictEqual(detectVagueLanguage('Produto sustentável e natural').terms, ['natural', 'sustainable']);
+assert.deepStrictEqual(detectVagueLanguage('Carbon neutral shipping').terms, ['climate neutral']);
+
+// Claims with no generic term are left to the evidence check
+assert.deepStrictEqual(detectVagueLanguage('Made with recycled aluminium'), { vague: false, terms: [], reasons: [] });
+
+// Percentages, amounts with units and standards qualify the claim
+assert.strictEqual(detectVagueLanguage('Eco-friendly: 80% recycled plastic').vague, false);
+assert.strictEqual(detectVagueLanguage('Green delivery, -40 % CO2 per parcel').vague, false);
+assert.strictEqual(detectVagueLanguage('Sustainable bottle saves 2 kg CO2e a year').vague, false);
+assert.strictEqual(detectVagueLanguage('Biodegradable, certified to EN 13432').vague, false);
+
+// A bare number is not a qualifier, and "100% natural" measures nothing
+assert.strictEqual(detectVagueLanguage('Eco-friendly since 1990').vague, true);
+assert.strictEqual(detectVagueLanguage('Green choice for 3 generations').vague, true);
+assert.strictEqual(detectVagueLanguage('100% natural ingredients').vague, true);
+assert.strictEqual(detectVagueLanguage('100% sustentável').vague, true);
+
+// "100%" of a measurable property still qualifies the claim
+assert.strictEqual(detectVagueLanguage('Made with 100% recycled plastic, eco-friendly').vague, false);
+
+// "natural" naming a material is not a claim
+assert.deepStrictEqual(detectVagueLanguage('Soles made of natural rubber'), { vague: false, terms: [], reasons: [] });
+assert.strictEqual(detectVagueLanguage('Colchão de látex natural').vague, false);
+assert.strictEqual(detectVagueLanguage('All natural formula').vague, true);
+
+// A recognized third-party certification qualifies it; a self-declared label does not
+assert.strictEqual(detectVagueLanguage('Sustainable wood, FSC certified').vague, false);
+assert.strictEqual(detectVagueLanguage('Green Seal certified green cleaner').vague, false);
+assert.strictEqual(detectVagueLanguage('Eco-friendly').vague, true);
+
+console.log('Claim verifier test passed');
@@ -0,0 +1,72 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import config from '../config';
+import { getFixturePath, hashFixtureRequest, withFixture } from '../services/fixtures';
+import webSearchClient from '../services/web-search-client';
+
+async function run() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sicosi-fixtures-'));
+  config.fixtures.dir = dir;
+
+  // Same request with keys in another order hashes the same
+  assert.strictEqual(
+    hashFixtureRequest('groq', { model: 'm', temperature: 0.1 }),
+    hashFixtureRequest('groq', { temperature: 0.1, model: 'm' }),
+  );
+
+  // Record: live call runs once and its response is written to disk
+  config.fixtures.mode = 'record';
+  let liveCalls = 0;
+  const live = async () => {
+    liveCalls++;
+    return { choices: [{ message: { content: '{"category":"electronics"}' } }] };
+  };
+  const request = { model: 'm', messages: [{ role: 'user', content: 'Classify: iPhone 15' }] };
+
+  const recorded = await withFixture('groq', request, live);
+  assert.strictEqual(liveCalls, 1);
+  assert.ok(fs.existsSync(getFixturePath('groq', hashFixtureRequest('groq', request), dir)));
+
+  // Replay: served from disk, live call never runs
+  config.fixtures.mode = 'replay';
+  const replayed = await withFixture('groq', request, live);
+  assert.strictEqual(liveCalls, 1);
+  assert.deepStrictEqual(replayed, recorded);
+
+  // Replay without a fixture fails loudly instead of hitting the network
+  await assert.rejects(
+    withFixture('groq', { ...request, model: 'other' }, live),
+    /No groq fixture/,
+  );
+
+  // WebSearchClient.search replays with no search provider credentials
+  const searchRequest = { query: 'bamboo toothbrush', options: { maxResults: 3 } };
+  const searchFixture = getFixturePath('search', hashFixtureRequest('search', searchRequest), dir);
+  fs.mkdirSync(path.dirname(searchFixture), { recursive: true });
+  fs.writeFileSync(
+    searchFixture,
+    JSON.stringify({
+      kind: 'search',
+      request: searchRequest,
+      response: {
+        success: true,
+        query: 'bamboo toothbrush',
+        results: [{ title: 'Bamboo toothbrush', url: 'https://example.com/p/1', snippet: 'FSC bamboo' }],
+      },
+    }),
+  );
+
+  const searchResponse = await webSearchClient.search('bamboo toothbrush', { maxResults: 3 });
+  assert.strictEqual(searchResponse.results.length, 1);
+  assert.strictEqual(searchResponse.results[0].url, 'https://example.com/p/1');
+
+  fs.rmSync(dir, { recursive: true, force: true });
+  console.log('Fixture record/replay test passed');
+}
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,74 @@
+import assert from 'assert';
+import { calculateSustainabilityScore } from '../services/scoring-engine';
+import { buildComparison, chooseSharedCategory } from '../services/product-comparison';
+
+function run() {
+  assert.strictEqual(chooseSharedCategory(['electronics', 'home_kitchen', 'electronics']), 'electronics');
+  // Tie goes to the first product's category
+  assert.strictEqual(chooseSharedCategory(['home_kitchen', 'electronics']), 'home_kitchen');
+
+  const score = (facts: Record<string, number>) =>
+    calculateSustainabilityScore(
+      Object.fromEntries(Object.entries(facts).map(([criterion, value]) => [criterion, { score: value, evidence: [] }])),
+      'electronics',
+    );
+
+  const comparison = buildComparison([
+    { name: 'Laptop A', score: score({ durability: 60, repairability: 40, recyclability: 70 }) },
+    { name: 'Laptop B', score: score({ durability: 90, repairability: 95, recyclability: 70 }) },
+    { name: 'Laptop C', score: score({ durability: 50 }) },
+  ]);
+
+  // Matrix: one row per criterion of the shared category, scores in request order
+  const durability = comparison.matrix.find((row) => row.criterion === 'durability');
+  assert.deepStrictEqual(durability?.scores, [60, 90, 50]);
+  assert.deepStrictEqual(durability?.leaders, [1]);
+  const recyclability = comparison.matrix.find((row) => row.criterion === 'recyclability');
+  assert.deepStrictEqual(recyclability?.leaders, [0, 1]);
+  const materials = comparison.matrix.find((row) => row.criterion === 'materials');
+  assert.deepStrictEqual(materials?.scores, [null, null, null]);
+  assert.deepStrictEqual(materials?.leaders, []);
+
+  assert.deepStrictEqual(
+    comparison.ranking.map((entry) => [entry.rank, entry.name]),
+    [
+      [1, 'Laptop B'],
+      [2, 'Laptop A'],
+      [3, 'Laptop C'],
+    ],
+  );
+
+  // Deciding criteria: where the winner beat the runner-up, by weighted gap
+  assert.strictEqual(comparison.recommendation.name, 'Laptop B');
+  assert.deepStrictEqual(
+    comparison.recommendation.decidingCriteria.map((row) => row.criterion),
+    ['repairability', 'durability'],
+  );
+  assert.ok(comparison.recommendation.margin > 0);
+
+  assert.throws(() => buildComparison([{ name: 'Only one', score: score({ durability: 50 }) }]), /two scored products/);
+
+  // Products that could not be scored keep their index but stay out of the ranking
+  const partial = buildComparison([
+    { name: 'Laptop A', score: score({ durability: 60 }) },
+    { name: 'Broken', score: null },
+    { name: 'Laptop B', score: score({ durability: 90 }) },
+  ]);
+  assert.deepStrictEqual(partial.matrix.find((row) => row.criterion === 'durability')?.scores, [60, null, 90]);
+  assert.deepStrictEqual(
+    partial.ranking.map((entry) => [entry.index, entry.name]),
+    [
+      [2, 'Laptop B'],
+      [0, 'Laptop A'],
+    ],
+  );
+  assert.strictEqual(partial.recommendation.index, 2);
+  assert.throws(
+    () => buildComparison([{ name: 'Laptop A', score: score({ durability: 60 }) }, { name: 'Broken', score: null }]),
+    /two scored products/,
+  );
+
+  console.log('Product comparison test passed:', comparison.recommendation);
+}
+
+run();
@@ -0,0 +1,128 @@
+import assert from 'assert';
+import { setCache } from '../services/cache';
+import { getAnalysisCacheKey } from '../services/cache/keys';
+import { createMemoryCache } from '../services/cache/memory';
+import { getKnowledgeBaseStamp } from '../services/cache/stamp';
+import { loadStoredAnalysis } from '../services/product-analysis';
+import { calculateSustainabilityScore } from '../services/scoring-engine';
+import { ExportableAnalysis, renderExport, toCsv, toHtmlReport, toJsonLd } from '../services/report-export';
+
+const score = calculateSustainabilityScore(
+  {
+    durability: { score: 80, evidence: [] },
+    repairability: { score: 60, evidence: [] },
+    certifications: ['ENERGY STAR', 'Eco-friendly'],
+  },
+  'electronics',
+);
+
+const laptop: ExportableAnalysis = {
+  productInfo: { productName: 'Laptop "Pro", 14"', pageUrl: 'https://shop.example/laptop' },
+  category: 'electronics',
+  originalProduct: {
+    name: 'Laptop "Pro", 14"',
+    category: 'electronics',
+    sustainability_score: score.finalScore,
+    classification: score.classification,
+    breakdown: score.breakdown,
+    missed_targets: score.missedTargets,
+    data_coverage: score.dataCoverage,
+    confidence_band: score.confidenceBand,
+    summary: 'Repairable <b>laptop</b>.',
+    certifications_found: score.certifications.recognized.map((certification) => certification.name),
+    certification_check: score.certifications,
+  },
+  alternatives: [
+    { name: 'Fairphone-style laptop', sustainability_score: 88, where_to_buy: 'shop.example', product_url: 'https://shop.example/alt' },
+  ],
+  timestamp: '2026-01-15T10:00:00.000Z',
+  _meta: { kbVersion: '9.9.9' },
+};
+
+async function run() {
+  // CSV: header + one escaped row per product
+  const csv = toCsv([laptop]).split('\r\n');
+  assert.strictEqual(csv[0].split(',')[0], 'product_name');
+  assert.ok(csv[1].startsWith('"Laptop ""Pro"", 14""",electronics,'));
+  assert.ok(csv[1].includes('durability='));
+  assert.ok(csv[1].includes(',88,9.9.9,2026-01-15T10:00:00.000Z,https://shop.example/laptop'));
+
+  // JSON-LD: a schema.org Product with sustainability properties
+  const product = toJsonLd([laptop]) as any;
+  assert.strictEqual(product['@context'], 'https://schema.org');
+  assert.strictEqual(product['@type'], 'Product');
+  const properties = Object.fromEntries(
+    product.additionalProperty.map((property: any) => [property.propertyID, property.value]),
+  );
+  assert.strictEqual(properties.sustainabilityScore, score.finalScore);
+  assert.strictEqual(properties.knowledgeBaseVersion, '9.9.9');
+  assert.ok('criterion:durability' in properties);
+  assert.deepStrictEqual(
+    product.hasCertification.map((certification: any) => certification.name),
+    ['Energy Star'],
+  );
+  assert.strictEqual(product.isSimilarTo[0].name, 'Fairphone-style laptop');
+
+  const graph = toJsonLd([laptop, laptop]) as any;
+  assert.strictEqual(graph['@graph'].length, 2);
+  assert.strictEqual(graph['@graph'][0]['@context'], undefined);
+
+  // HTML: escaped, with breakdown, certifications, alternatives and KB version
+  const html = toHtmlReport([laptop]);
+  assert.ok(html.startsWith('<!DOCTYPE html>'));
+  assert.ok(html.includes('Repairable &lt;b&gt;laptop&lt;/b&gt;.'));
+  assert.ok(html.includes('Criterion breakdown'));
+  assert.ok(html.includes('Energy Star'));
+  assert.ok(html.includes('self-declared, not credited'));
+  assert.ok(html.includes('Fairphone-style laptop'));
+  assert.ok(html.includes('v9.9.9'));
+
+  // Spreadsheet formulas and non-http(s) links are neutralized
+  const hostile = {
+    ...laptop,
+    originalProduct: { name: '=HYPERLINK("https://evil.example","click")', sustainability_score: 40 },
+    productInfo: { productName: 'Laptop', pageUrl: 'javascript:alert(1)' },
+    alternatives: [{ name: 'Data link', sustainability_score: 70, product_url: 'data:text/html,<script>alert(1)</script>' }],
+  };
+  const hostileCsv = toCsv([hostile, { ...laptop, originalProduct: { name: '@SUM(A1)', sustainability_score: 40 } }]).split('\r\n');
+  assert.ok(hostileCsv[1].startsWith(`"'=HYPERLINK(""https://evil.example"",""click"")",`));
+  assert.ok(hostileCsv[2].startsWith("'@SUM(A1),"));
+  const hostileHtml = toHtmlReport([hostile]);
+  assert.ok(!hostileHtml.includes('javascript:'));
+  assert.ok(!hostileHtml.includes('href="data:'));
+  assert.ok(hostileHtml.includes('<td>Data link</td>'));
+  assert.ok(html.includes('<a href="https://shop.example/alt">Fairphone-style laptop</a>'));
+
+  assert.strictEqual(renderExport('csv', [laptop]).contentType, 'text/csv; charset=utf-8');
+  assert.throws(() => renderExport('pdf' as any, [laptop]), /Unsupported export format/);
+
+  // Reports are built from the analysis the server stored, never from the client's copy
+  const cache = createMemoryCache(10);
+  setCache(cache);
+  const missing = await loadStoredAnalysis({ productName: 'Never analyzed', userCountry: 'BR' });
+  assert.strictEqual(missing.success, false);
+  assert.match(missing.error || '', /No stored analysis/);
+
+  await cache.set(
+    getAnalysisCacheKey('Laptop Pro', 'BR'),
+    {
+      originalProduct: laptop.originalProduct,
+      alternatives: laptop.alternatives,
+      ...getKnowledgeBaseStamp('electronics'),
+      cachedAt: Date.now(),
+    },
+    60,
+  );
+  const stored = await loadStoredAnalysis({ productName: 'Laptop Pro', userCountry: 'BR', pageUrl: 'https://evil.example' });
+  assert.strictEqual(stored.success, true);
+  assert.strictEqual(stored.originalProduct?.sustainability_score, score.finalScore);
+  assert.strictEqual(stored.productInfo?.pageUrl, '');
+  assert.ok(!toHtmlReport([stored as ExportableAnalysis]).includes('evil.example'));
+
+  console.log('Report export test passed');
+}
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
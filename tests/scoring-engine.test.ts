@@ -1,12 +1,21 @@
 import assert from 'assert';
 import { calculateSustainabilityScore, ProductFacts } from '../services/scoring-engine';
 
+const evidence = (text: string, indicatorId: string | null = null) => ({
+  text,
+  sourceUrl: 'https://example.com/product',
+  indicatorId,
+});
+
 const sampleFacts: ProductFacts = {
-  durability: { score: 80, evidence: ['Metal chassis', 'Warranty 5 years'] },
-  repairability: { score: 60, evidence: ['Replacement parts available'] },
-  recyclability: { score: 50, evidence: ['Uses recyclable plastic'] },
-  energy_efficiency: { score: 70, evidence: ['Energy Star certified'] },
-  materials: { score: 40, evidence: ['Some recycled content'] },
+  durability: {
+    score: 80,
+    evidence: [evidence('Metal chassis'), evidence('Warranty 5 years', 'electronics_durability_1')],
+  },
+  repairability: { score: 60, evidence: [evidence('Replacement parts available')] },
+  recyclability: { score: 50, evidence: [evidence('Uses recyclable plastic')] },
+  energy_efficiency: { score: 70, evidence: [evidence('Energy Star certified')] },
+  materials: { score: 40, evidence: [evidence('Some recycled content')] },
 };
 
 const { finalScore, breakdown, classification } = calculateSustainabilityScore(
@@ -17,6 +26,81 @@ const { finalScore, breakdown, classification } = calculateSustainabilityScore(
 assert.strictEqual(typeof finalScore, 'number');
 assert.ok(finalScore > 0);
 assert.ok(breakdown.durability);
+assert.strictEqual(breakdown.durability.evidence.length, 2);
+assert.strictEqual(breakdown.durability.evidence[1].indicatorId, 'electronics_durability_1');
+assert.strictEqual(breakdown.durability.evidence[0].sourceUrl, 'https://example.com/product');
 assert.ok(classification.length > 0);
 
 console.log('Scoring engine test passed:', { finalScore, classification });
+
+// Indicator-level facts roll up into criterion scores
+const indicatorFacts: ProductFacts = {
+  durability: {
+    evidence: [],
+    indicators: {
+      electronics_durability_1: { status: 'met', evidence: [evidence('6-year lifespan', 'electronics_durability_1')] },
+      electronics_durability_2: { status: 'unmet', evidence: [evidence('Glued battery', 'electronics_durability_2')] },
+      electronics_durability_3: { status: 'met', evidence: [] },
+      electronics_durability_4: { status: 'met', evidence: [] },
+    },
+  },
+};
+
+const indicatorScore = calculateSustainabilityScore(indicatorFacts, 'electronics');
+
+// Unknown indicators are left out of the average instead of counting as 0
+assert.strictEqual(indicatorScore.breakdown.durability.score, 75);
+assert.strictEqual(indicatorScore.breakdown.durability.coverage, 80);
+assert.strictEqual(indicatorScore.breakdown.repairability.status, 'unknown');
+assert.strictEqual(indicatorScore.breakdown.repairability.score, null);
+assert.strictEqual(indicatorScore.breakdown.durability.indicators.length, 5);
+assert.strictEqual(
+  indicatorScore.breakdown.durability.indicators.find((i) => i.id === 'electronics_durability_5')?.status,
+  'unknown',
+);
+assert.deepStrictEqual(
+  indicatorScore.missedTargets.map((t) => t.indicatorId),
+  ['electronics_durability_2'],
+);
+
+assert.strictEqual(indicatorScore.finalScore, 75);
+assert.strictEqual(indicatorScore.dataCoverage, 20);
+assert.deepStrictEqual(indicatorScore.confidenceBand, { low: 35, high: 100, margin: 40 });
+
+// No evidence at all is reported as insufficient data, not as a polluter
+const emptyScore = calculateSustainabilityScore({}, 'electronics');
+assert.strictEqual(emptyScore.classification, 'insufficient_data');
+assert.strictEqual(emptyScore.dataCoverage, 0);
+
+console.log('Indicator roll-up test passed:', {
+  finalScore: indicatorScore.finalScore,
+  dataCoverage: indicatorScore.dataCoverage,
+});
+
+// Recognized certifications add a capped bonus; self-declared labels don't
+const certifiedScore = calculateSustainabilityScore(
+  { ...indicatorFacts, certifications: ['ENERGY STAR®', 'EPEAT Gold', 'Eco-friendly', 'Acme Quality Seal'] },
+  'electronics',
+);
+
+assert.deepStrictEqual(
+  certifiedScore.certifications.recognized.map((c) => c.id),
+  ['energy_star', 'epeat'],
+);
+assert.deepStrictEqual(certifiedScore.certifications.selfDeclared.map((c) => c.id), ['eco_friendly_claim']);
+assert.deepStrictEqual(certifiedScore.certifications.unrecognized, ['Acme Quality Seal']);
+assert.strictEqual(certifiedScore.breakdown.durability.certificationBonus, 10);
+assert.strictEqual(certifiedScore.breakdown.durability.score, 85);
+assert.strictEqual(certifiedScore.breakdown.energy_efficiency.certificationBonus, 30);
+assert.strictEqual(certifiedScore.breakdown.energy_efficiency.score, 80);
+assert.deepStrictEqual(certifiedScore.breakdown.energy_efficiency.certifications, ['Energy Star', 'EPEAT']);
+assert.strictEqual(certifiedScore.breakdown.energy_efficiency.coverage, 100);
+
+// A criterion proven only by a certification counts as covered: the bonus
+// never yields a scored product classified as insufficient data
+const certificationOnly = calculateSustainabilityScore({ certifications: ['ENERGY STAR'] }, 'electronics');
+assert.strictEqual(certificationOnly.breakdown.energy_efficiency.score, 75);
+assert.strictEqual(certificationOnly.dataCoverage, 15);
+assert.strictEqual(certificationOnly.classification, 'good');
+
+console.log('Certification bonus test passed:', { finalScore: certifiedScore.finalScore });
@@ -0,0 +1,100 @@
+import assert from 'assert';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import type { NextApiResponse } from 'next';
+import { openEventStream } from '../services/sse';
+import type { EventStream } from '../services/sse';
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function request(
+  port: number,
+  options: { method?: string; body?: string } = {},
+): Promise<{ headers: http.IncomingHttpHeaders; body: string }> {
+  return new Promise((resolve, reject) => {
+    const req = http.request(
+      { host: '127.0.0.1', port, path: '/', method: options.method || 'GET' },
+      (res) => {
+        let data = '';
+        res.on('data', (chunk) => (data += chunk));
+        res.on('end', () => resolve({ headers: res.headers, body: data }));
+      },
+    );
+    req.on('error', reject);
+    req.end(options.body);
+  });
+}
+
+async function run() {
+  let disconnected: EventStream | null = null;
+  const server = http.createServer((req, res) => {
+    const stream = openEventStream(res as NextApiResponse);
+
+    if (req.method === 'GET') {
+      stream.send('category', { category: 'cosmetics_personal_care' });
+      stream.send('alternative', { index: 0, alternative: { name: 'Bamboo toothbrush' } });
+      stream.close();
+      // Sends after close are ignored
+      stream.send('result', { success: true });
+      return;
+    }
+
+    // POST: the body is read first and events go out later, like the analysis
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', async () => {
+      if (body === 'disconnect') {
+        disconnected = stream;
+        return;
+      }
+
+      const { productName } = JSON.parse(body);
+      await wait(20);
+      stream.send('stage', { stage: 'categorizing' });
+      await wait(20);
+      stream.send('result', { success: true, productName });
+      stream.close();
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  const { headers, body } = await request(port);
+  assert.match(String(headers['content-type']), /^text\/event-stream/);
+  assert.strictEqual(headers['cache-control'], 'no-cache, no-transform');
+  assert.strictEqual(headers['content-encoding'], undefined);
+  assert.strictEqual(
+    body,
+    'event: category\ndata: {"category":"cosmetics_personal_care"}\n\n' +
+      'event: alternative\ndata: {"index":0,"alternative":{"name":"Bamboo toothbrush"}}\n\n',
+  );
+
+  // Reading the POST body does not close the stream for asynchronous sends
+  const posted = await request(port, { method: 'POST', body: JSON.stringify({ productName: 'Escova de dentes' }) });
+  assert.strictEqual(
+    posted.body,
+    'event: stage\ndata: {"stage":"categorizing"}\n\n' +
+      'event: result\ndata: {"success":true,"productName":"Escova de dentes"}\n\n',
+  );
+
+  // A client that goes away marks the stream as closed
+  const aborted = http.request({ host: '127.0.0.1', port, path: '/', method: 'POST' }, (res) => {
+    res.once('data', () => undefined);
+  });
+  aborted.on('error', () => undefined);
+  aborted.end('disconnect');
+  while (!disconnected) await wait(5);
+  const stream = disconnected as EventStream;
+  assert.strictEqual(stream.closed, false);
+  aborted.destroy();
+  while (!stream.closed) await wait(5);
+  stream.send('result', { success: true });
+
+  server.close();
+  console.log('SSE stream test passed');
+}
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,77 @@
+import assert from 'assert';
+import config from '../config';
+import { WebSearchClient } from '../services/web-search-client';
+import type { ProviderSearchResult, SearchProvider } from '../types';
+
+config.fixtures.mode = 'off';
+
+const result = (title: string): ProviderSearchResult => ({
+  answer: null,
+  results: [{ title, url: `https://example.com/${title}`, snippet: title, score: 1 }],
+  images: [],
+});
+
+const empty: ProviderSearchResult = { answer: null, results: [], images: [] };
+
+const failing = (message: string) => async (): Promise<ProviderSearchResult> => {
+  throw new Error(message);
+};
+
+function provider(name: string, search: () => Promise<ProviderSearchResult>, calls: string[]): SearchProvider {
+  return {
+    name,
+    isConfigured: () => true,
+    search: async () => {
+      calls.push(name);
+      return search();
+    },
+  };
+}
+
+async function run() {
+  // A provider error fails over to the next provider
+  let calls: string[] = [];
+  const afterError = await new WebSearchClient([
+    provider('broken', failing('rate limited'), calls),
+    provider('backup', async () => result('backup'), calls),
+  ]).search('bamboo toothbrush');
+  assert.deepStrictEqual(calls, ['broken', 'backup']);
+  assert.strictEqual(afterError.success, true);
+  assert.strictEqual(afterError.provider, 'backup');
+  assert.strictEqual(afterError.results[0].title, 'backup');
+
+  // Zero results also fail over; unconfigured providers are skipped
+  calls = [];
+  const afterEmpty = await new WebSearchClient([
+    provider('empty', async () => empty, calls),
+    { ...provider('unconfigured', async () => result('unconfigured'), calls), isConfigured: () => false },
+    provider('backup', async () => result('backup'), calls),
+  ]).search('bamboo toothbrush');
+  assert.deepStrictEqual(calls, ['empty', 'backup']);
+  assert.strictEqual(afterEmpty.provider, 'backup');
+
+  // Every provider empty: an empty success from the first one, not an error
+  calls = [];
+  const allEmpty = await new WebSearchClient([
+    provider('first', async () => empty, calls),
+    provider('second', async () => empty, calls),
+  ]).search('bamboo toothbrush');
+  assert.deepStrictEqual(calls, ['first', 'second']);
+  assert.strictEqual(allEmpty.success, true);
+  assert.strictEqual(allEmpty.provider, 'first');
+  assert.deepStrictEqual(allEmpty.results, []);
+
+  // Every provider failing is an error with the last message
+  const allFailed = await new WebSearchClient([provider('only', failing('timeout'), [])]).search(
+    'bamboo toothbrush',
+  );
+  assert.strictEqual(allFailed.success, false);
+  assert.strictEqual(allFailed.error, 'timeout');
+
+  console.log('Web search failover test passed');
+}
+
+run().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -24,6 +24,23 @@ export interface SearchResponse {
   images?: string[];
   error?: string;
   timestamp?: string;
+  // Provedor que respondeu (ex: 'tavily'); ausente quando nenhum respondeu
+  provider?: string;
+}
+
+// Resultado bruto de um provedor de busca, já no formato SearchResult
+export interface ProviderSearchResult {
+  answer: string | null;
+  results: SearchResult[];
+  images: string[];
+}
+
+// Provedor de busca plugável (Tavily, Brave...) usado pelo WebSearchClient
+export interface SearchProvider {
+  name: string;
+  isConfigured(): boolean;
+  // Deve lançar erro em falha; lista vazia significa "sem resultados"
+  search(query: string, options: SearchOptions): Promise<ProviderSearchResult>;
 }
 
 export interface AnalysisOptions {
@@ -117,6 +134,24 @@ export interface AlternativesMetadata {
   };
 }
 
+// Selo/certificação reconhecido no certification_registry
+export interface CertificationRegistryEntry {
+  name: string;
+  issuer: string;
+  scope: string;
+  type: 'third_party' | 'government' | 'regulatory' | 'self_declared';
+  label_text: string;
+  aliases: string[];
+  // Pontos de bônus por critério de sustentabilidade que o selo comprova
+  criteria_credits: {
+    [criterionName: string]: number;
+  };
+}
+
+export interface CertificationRegistry {
+  [certificationId: string]: CertificationRegistryEntry;
+}
+
 // Estrutura completa do alternatives.json
 export interface AlternativesData {
   version: string;
@@ -127,4 +162,5 @@ export interface AlternativesData {
   categories: {
     [key: string]: CategoryData;
   };
+  certification_registry?: CertificationRegistry;
 }
\ No newline at end of file